@@ -0,0 +1,440 @@
+// Request routing for the appointment backend. Every route delegates to an
+// AppointmentApi implementation and returns its ApiResponse envelope as JSON,
+// using the envelope's error code as the HTTP status.
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import {
+  ApiResponse,
+  AppointmentApi,
+  AppointmentTypeInput,
+  BookingStatusUpdate,
+  CannedResponseInput,
+  NotificationTemplateInput,
+  ProviderInput,
+  RescheduleBookingInput,
+  RuleConflictResolution,
+  RuleRecurrence,
+  ScheduleConfig,
+  SetAvailabilityInput
+} from '../src/services/types';
+import { BOOKING_STATUS_UPDATES } from '../src/services/bookings';
+
+type RouteHandler = (
+  params: Record<string, string>,
+  body: unknown,
+  res: ServerResponse,
+  query: URLSearchParams
+) => Promise<ApiResponse<unknown> | void>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  successStatus: number;
+  handler: RouteHandler;
+  // Reachable without the admin token: what the booking, manage-booking and
+  // waitlist pages need
+  isPublic: boolean;
+}
+
+// Compiles an express-style path ("/bookings/:id") into a matcher
+const route = (
+  method: string,
+  path: string,
+  handler: RouteHandler,
+  successStatus = 200
+): Route => {
+  const keys: string[] = [];
+  const source = path.replace(/:([a-zA-Z]+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { method, pattern: new RegExp(`^${source}$`), keys, successStatus, handler, isPublic: false };
+};
+
+const publicRoute = (...args: Parameters<typeof route>): Route => ({ ...route(...args), isPublic: true });
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(400, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (chunks.length === 0) return resolve(undefined);
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body must be valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Path parameters such as ids; a stray % can't be decoded
+const decodePathParam = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, 'Malformed URL path');
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(payload));
+};
+
+const sendError = (res: ServerResponse, code: number, message: string, details?: string) => {
+  const payload: ApiResponse<never> = { success: false, error: { code, message, details } };
+  sendJson(res, code, payload);
+};
+
+const asObject = (body: unknown): Record<string, unknown> =>
+  body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+
+// Missing and null both mean "not set"
+const toOptionalNumber = (value: unknown): number | null =>
+  value === undefined || value === null ? null : Number(value);
+
+// Shape checks only; the service validates dates, times and recurrence
+const toRuleInput = (body: unknown): SetAvailabilityInput => {
+  const data = asObject(body);
+  if (!data.date || !Array.isArray(data.timeSlots)) {
+    throw new HttpError(400, 'Date and time slots are required');
+  }
+  return {
+    date: String(data.date),
+    timeSlots: data.timeSlots.map(String),
+    isBlocked: Boolean(data.isBlocked),
+    reason: typeof data.reason === 'string' ? data.reason : undefined,
+    recurrence: data.recurrence as RuleRecurrence | undefined,
+    providerId: typeof data.providerId === 'string' ? data.providerId : undefined,
+    capacity: toOptionalNumber(data.capacity) ?? undefined,
+    onConflict: data.onConflict as RuleConflictResolution | undefined
+  };
+};
+
+// Shape checks only; the service validates duration and color
+const toRescheduleInput = (body: unknown): RescheduleBookingInput => {
+  const data = asObject(body);
+  return {
+    slotId: String(data.slotId ?? ''),
+    providerId: typeof data.providerId === 'string' ? data.providerId : undefined
+  };
+};
+
+const toAppointmentTypeInput = (body: unknown): AppointmentTypeInput => {
+  const data = asObject(body);
+  return {
+    name: String(data.name ?? ''),
+    durationMinutes: Number(data.durationMinutes),
+    description: String(data.description ?? ''),
+    color: String(data.color ?? ''),
+    capacity: Number(data.capacity ?? 1),
+    bufferBeforeMinutes: toOptionalNumber(data.bufferBeforeMinutes),
+    bufferAfterMinutes: toOptionalNumber(data.bufferAfterMinutes)
+  };
+};
+
+// Shape checks only; the service validates hours and color
+const toProviderInput = (body: unknown): ProviderInput => {
+  const data = asObject(body);
+  if (data.weeklyHours !== null && data.weeklyHours !== undefined && !Array.isArray(data.weeklyHours)) {
+    throw new HttpError(400, 'weeklyHours must be a list of 7 weekdays or null');
+  }
+  return {
+    name: String(data.name ?? ''),
+    email: String(data.email ?? ''),
+    weeklyHours: (data.weeklyHours as ProviderInput['weeklyHours']) ?? null,
+    color: String(data.color ?? ''),
+    priority: Number(data.priority)
+  };
+};
+
+// Shape checks only; the service validates the status and message
+const toCannedResponseInput = (body: unknown): CannedResponseInput => {
+  const data = asObject(body);
+  return {
+    status: data.status as CannedResponseInput['status'],
+    title: String(data.title ?? ''),
+    message: String(data.message ?? '')
+  };
+};
+
+const toNotificationTemplateInput = (body: unknown): NotificationTemplateInput => {
+  const data = asObject(body);
+  return {
+    event: data.event as NotificationTemplateInput['event'],
+    channel: data.channel === null || data.channel === undefined ? null : String(data.channel),
+    subject: String(data.subject ?? ''),
+    body: String(data.body ?? '')
+  };
+};
+
+export const createRoutes = (service: AppointmentApi): Route[] => [
+  publicRoute('GET', '/slots', (_params, _body, _res, query) =>
+    service.getAvailableSlots({
+      appointmentTypeId: query.get('appointmentTypeId') ?? undefined,
+      providerId: query.get('providerId') ?? undefined,
+      holdId: query.get('holdId') ?? undefined
+    })
+  ),
+
+  publicRoute('POST', '/slot-holds', (_params, body) => {
+    const data = asObject(body);
+    return service.holdSlot({
+      slotId: String(data.slotId ?? ''),
+      appointmentTypeId: typeof data.appointmentTypeId === 'string' ? data.appointmentTypeId : undefined,
+      providerId: typeof data.providerId === 'string' ? data.providerId : undefined
+    });
+  }, 201),
+
+  publicRoute('DELETE', '/slot-holds/:id', (params) => service.releaseSlotHold(params.id)),
+
+  publicRoute('POST', '/waitlist', (_params, body) => {
+    const data = asObject(body);
+    return service.joinWaitlist({
+      slotId: typeof data.slotId === 'string' ? data.slotId : undefined,
+      date: typeof data.date === 'string' ? data.date : undefined,
+      appointmentTypeId: typeof data.appointmentTypeId === 'string' ? data.appointmentTypeId : undefined,
+      providerId: typeof data.providerId === 'string' ? data.providerId : undefined,
+      name: String(data.name ?? ''),
+      email: String(data.email ?? ''),
+      reason: String(data.reason ?? '')
+    });
+  }, 201),
+
+  route('GET', '/waitlist', () => service.getWaitlist()),
+
+  publicRoute('GET', '/waitlist/:id', (params, _body, _res, query) =>
+    service.getWaitlistEntry(params.id, query.get('token') ?? '')
+  ),
+
+  route('DELETE', '/waitlist/:id', (params) => service.removeWaitlistEntry(params.id)),
+
+  publicRoute('POST', '/waitlist/:id/claim', (params, body) =>
+    service.claimWaitlistOffer(params.id, String(asObject(body).token ?? '')), 201
+  ),
+
+  route('GET', '/bookings', () => service.getAllBookings()),
+
+  route('GET', '/bookings/export.csv', async (_params, _body, res) => {
+    const csv = await service.exportBookingsCSV();
+    res.writeHead(200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="appointment-bookings.csv"'
+    });
+    res.end(csv);
+  }),
+
+  publicRoute('POST', '/bookings', (_params, body) => {
+    const data = asObject(body);
+    return service.createBooking({
+      slotId: String(data.slotId ?? ''),
+      appointmentTypeId: typeof data.appointmentTypeId === 'string' ? data.appointmentTypeId : undefined,
+      providerId: typeof data.providerId === 'string' ? data.providerId : undefined,
+      holdId: typeof data.holdId === 'string' ? data.holdId : undefined,
+      name: String(data.name ?? ''),
+      email: String(data.email ?? ''),
+      reason: String(data.reason ?? '')
+    });
+  }, 201),
+
+  publicRoute('GET', '/bookings/:id/manage', (params, _body, _res, query) =>
+    service.getManagedBooking(params.id, query.get('token') ?? '')
+  ),
+
+  publicRoute('GET', '/bookings/:id/invite', (params, _body, _res, query) =>
+    service.getCalendarInvite(params.id, query.get('token') ?? '')
+  ),
+
+  publicRoute('POST', '/bookings/:id/cancel', (params, body) =>
+    service.cancelBooking(params.id, String(asObject(body).token ?? ''))
+  ),
+
+  publicRoute('POST', '/bookings/:id/reschedule', (params, body) => {
+    const { token } = asObject(body);
+    return service.rescheduleBooking(params.id, String(token ?? ''), toRescheduleInput(body));
+  }),
+
+  route('PUT', '/bookings/:id/slot', (params, body) =>
+    service.updateBookingSlot(params.id, toRescheduleInput(body))
+  ),
+
+  route('PATCH', '/bookings/:id', async (params, body) => {
+    const { status, reason } = asObject(body);
+    if (!BOOKING_STATUS_UPDATES.includes(status as BookingStatusUpdate)) {
+      throw new HttpError(400, `Status must be one of: ${BOOKING_STATUS_UPDATES.join(', ')}`);
+    }
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new HttpError(400, 'Reason must be a string');
+    }
+    return service.updateBookingStatus(params.id, status as BookingStatusUpdate, reason as string | undefined);
+  }),
+
+  route('PUT', '/bookings/:id/notes', (params, body) => {
+    const { notes } = asObject(body);
+    if (typeof notes !== 'string') {
+      throw new HttpError(400, 'Notes must be a string');
+    }
+    return service.updateBookingNotes(params.id, notes);
+  }),
+
+  route('GET', '/availability-rules', () => service.getAvailabilityRules()),
+
+  route('POST', '/availability-rules', (_params, body) => service.setAvailability(toRuleInput(body)), 201),
+
+  route('POST', '/availability-rules/conflicts', (_params, body) => service.findRuleConflicts(toRuleInput(body))),
+
+  route('DELETE', '/availability-rules/:id', (params) => service.deleteAvailabilityRule(params.id)),
+
+  route('POST', '/availability-rules/:id/exceptions', (params, body) =>
+    service.addRuleException(params.id, String(asObject(body).date ?? ''))
+  ),
+
+  route('DELETE', '/availability-rules/:id/exceptions/:date', (params) =>
+    service.removeRuleException(params.id, params.date)
+  ),
+
+  publicRoute('GET', '/appointment-types', () => service.getAppointmentTypes()),
+
+  route('POST', '/appointment-types', (_params, body) =>
+    service.createAppointmentType(toAppointmentTypeInput(body)), 201
+  ),
+
+  route('PUT', '/appointment-types/:id', (params, body) =>
+    service.updateAppointmentType(params.id, toAppointmentTypeInput(body))
+  ),
+
+  route('DELETE', '/appointment-types/:id', (params) => service.deleteAppointmentType(params.id)),
+
+  publicRoute('GET', '/providers', () => service.getProviders()),
+
+  route('POST', '/providers', (_params, body) => service.createProvider(toProviderInput(body)), 201),
+
+  route('PUT', '/providers/:id', (params, body) => service.updateProvider(params.id, toProviderInput(body))),
+
+  route('DELETE', '/providers/:id', (params) => service.deleteProvider(params.id)),
+
+  route('GET', '/canned-responses', () => service.getCannedResponses()),
+
+  route('POST', '/canned-responses', (_params, body) =>
+    service.createCannedResponse(toCannedResponseInput(body)), 201
+  ),
+
+  route('PUT', '/canned-responses/:id', (params, body) =>
+    service.updateCannedResponse(params.id, toCannedResponseInput(body))
+  ),
+
+  route('DELETE', '/canned-responses/:id', (params) => service.deleteCannedResponse(params.id)),
+
+  route('GET', '/notifications', () => service.getNotifications()),
+
+  route('POST', '/notifications/:id/retry', (params) => service.retryNotification(params.id)),
+
+  route('GET', '/notification-channels', () => service.getNotificationChannels()),
+
+  route('GET', '/notification-templates', () => service.getNotificationTemplates()),
+
+  route('POST', '/notification-templates', (_params, body) =>
+    service.createNotificationTemplate(toNotificationTemplateInput(body)), 201
+  ),
+
+  route('PUT', '/notification-templates/:id', (params, body) =>
+    service.updateNotificationTemplate(params.id, toNotificationTemplateInput(body))
+  ),
+
+  route('DELETE', '/notification-templates/:id', (params) => service.deleteNotificationTemplate(params.id)),
+
+  publicRoute('GET', '/schedule-config', () => service.getScheduleConfig()),
+
+  // Validated by the service, which reports problems as a 400
+  route('PUT', '/schedule-config', (_params, body) => service.updateScheduleConfig(body as ScheduleConfig))
+];
+
+// Compares "Authorization: Bearer <token>" against the admin token in
+// constant time
+const hasAdminToken = (req: IncomingMessage, adminToken: string): boolean => {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(adminToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+export interface RequestHandlerOptions {
+  // Required on every route that isn't public
+  adminToken: string;
+  allowedOrigin: string;
+}
+
+export const createRequestHandler = (service: AppointmentApi, { adminToken, allowedOrigin }: RequestHandlerOptions) => {
+  const routes = createRoutes(service);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Vary', 'Origin');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+    const candidates = routes.filter(r => r.pattern.test(pathname));
+    const match = candidates.find(r => r.method === req.method);
+
+    if (!match) {
+      if (candidates.length > 0) {
+        sendError(res, 405, `Method ${req.method} not allowed on ${pathname}`);
+      } else {
+        sendError(res, 404, `No route for ${req.method} ${pathname}`);
+      }
+      return;
+    }
+
+    if (!match.isPublic && !hasAdminToken(req, adminToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, 401, 'Admin token required');
+      return;
+    }
+
+    try {
+      const values = pathname.match(match.pattern)!.slice(1);
+      const params = Object.fromEntries(match.keys.map((key, i) => [key, decodePathParam(values[i])]));
+      const body = ['POST', 'PATCH', 'PUT'].includes(req.method ?? '') ? await readJsonBody(req) : undefined;
+
+      const result = await match.handler(params, body, res, searchParams);
+      if (!result) return; // handler wrote the response itself
+
+      const status = result.success ? match.successStatus : result.error?.code ?? 500;
+      sendJson(res, status, result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendError(res, error.code, error.message);
+      } else {
+        console.error(`❌ ${req.method} ${pathname} failed:`, error);
+        sendError(res, 500, 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+  };
+};
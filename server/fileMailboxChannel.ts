@@ -0,0 +1,21 @@
+// Development mailbox: writes each email to a directory as an .eml file,
+// which most mail clients can open.
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { NotificationChannel } from '../src/services/notifications';
+import { OutboxMessage } from '../src/services/types';
+import { formatEmail } from './mime';
+
+export class FileMailboxChannel implements NotificationChannel {
+  readonly name = 'mailbox';
+
+  constructor(private directory: string, private from = 'Appointment System <appointments@localhost>') {}
+
+  async send(message: OutboxMessage): Promise<void> {
+    mkdirSync(this.directory, { recursive: true });
+    // Named by message so a retry overwrites rather than duplicates
+    const file = join(this.directory, `${message.createdAt.replace(/[:.]/g, '-')}-${message.id}.eml`);
+    writeFileSync(file, formatEmail(message, this.from));
+    console.log(`📧 Email to ${message.to} written to ${file}`);
+  }
+}
@@ -0,0 +1,101 @@
+// Local appointment backend. Serves the AppointmentApi over HTTP so every
+// browser pointed at it shares the same bookings and availability rules.
+//
+//   npm run server            # listens on http://localhost:3001
+//   PORT=4000 npm run server
+//   STORAGE=memory npm run server               # don't persist anything
+//   SQLITE_FILE=/tmp/app.sqlite npm run server  # default: data/appointments.sqlite
+//
+// Customer emails go to SMTP when SMTP_HOST is set (SMTP_PORT, SMTP_SECURE,
+// SMTP_USER, SMTP_PASS, SMTP_INSECURE_AUTH, SMTP_FROM), otherwise to .eml
+// files in MAILBOX_DIR (default: data/mailbox). NOTIFY_WEBHOOK_URL also posts
+// each one as JSON.
+// SMTP_FROM is also the organizer of the calendar invites they carry.
+// PUBLIC_URL is where the app is served, used for links in those emails
+// (default: http://localhost:8080, the Vite dev server). Only that origin may
+// call the API from a browser unless CORS_ORIGIN says otherwise.
+//
+// Admin routes need "Authorization: Bearer <ADMIN_TOKEN>". Without
+// ADMIN_TOKEN a random token is generated and printed at startup.
+import { createServer } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { LocalAppointmentService } from '../src/services/localAppointmentService';
+import { CalendarOrganizer } from '../src/services/calendarInvite';
+import { NotificationChannel, WebhookChannel } from '../src/services/notifications';
+import { MemoryStorageAdapter, StorageAdapter } from '../src/services/storage';
+import { createRequestHandler } from './app';
+import { FileMailboxChannel } from './fileMailboxChannel';
+import { SmtpChannel } from './smtpChannel';
+import { SqliteFileStorageAdapter } from './sqliteStorage';
+
+const port = Number(process.env.PORT ?? 3001);
+const host = process.env.HOST ?? 'localhost';
+const mailFrom = process.env.SMTP_FROM ?? 'Appointment System <appointments@localhost>';
+const publicUrl = process.env.PUBLIC_URL ?? 'http://localhost:8080';
+const allowedOrigin = process.env.CORS_ORIGIN ?? new URL(publicUrl).origin;
+const adminToken = process.env.ADMIN_TOKEN || randomBytes(24).toString('hex');
+
+const createStorage = (): StorageAdapter => {
+  if (process.env.STORAGE === 'memory') {
+    return new MemoryStorageAdapter();
+  }
+  return new SqliteFileStorageAdapter(process.env.SQLITE_FILE ?? 'data/appointments.sqlite');
+};
+
+const createNotificationChannels = (): NotificationChannel[] => {
+  const channels: NotificationChannel[] = [
+    process.env.SMTP_HOST
+      ? new SmtpChannel({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT ?? 587),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+        allowInsecureAuth: process.env.SMTP_INSECURE_AUTH === 'true',
+        from: mailFrom
+      })
+      : new FileMailboxChannel(process.env.MAILBOX_DIR ?? 'data/mailbox', mailFrom)
+  ];
+  if (process.env.NOTIFY_WEBHOOK_URL) {
+    channels.push(new WebhookChannel(process.env.NOTIFY_WEBHOOK_URL));
+  }
+  return channels;
+};
+
+// "Name <address>" or a bare address
+const parseOrganizer = (mailbox: string): CalendarOrganizer => {
+  const match = mailbox.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  return match
+    ? { name: match[1] || 'Appointment System', email: match[2] }
+    : { name: 'Appointment System', email: mailbox.trim() };
+};
+
+const storage = createStorage();
+console.log(`📁 Using ${storage.name} storage`);
+
+const notificationChannels = createNotificationChannels();
+console.log(`📬 Sending notifications via ${notificationChannels.map(channel => channel.name).join(', ')}`);
+
+const service = new LocalAppointmentService({
+  storage,
+  simulatedLatency: false,
+  notificationChannels,
+  calendarOrganizer: parseOrganizer(mailFrom),
+  publicUrl
+});
+const server = createServer(createRequestHandler(service, { adminToken, allowedOrigin }));
+
+server.listen(port, host, () => {
+  console.log(`🚀 Appointment server listening on http://${host}:${port}`);
+  if (!process.env.ADMIN_TOKEN) {
+    console.log(`🔑 No ADMIN_TOKEN set, admin token for this run: ${adminToken}`);
+  }
+});
+
+const shutdown = () => {
+  console.log('👋 Shutting down appointment server');
+  server.close(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
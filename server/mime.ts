@@ -0,0 +1,74 @@
+// Builds RFC 5322 emails from outbox messages, for the SMTP channel and the
+// file mailbox.
+import { OutboxMessage } from '../src/services/types';
+
+const CRLF = '\r\n';
+
+// Raw header values with a line break or other control character could
+// start headers of their own, so they are refused outright
+export const hasControlCharacters = (value: string): boolean =>
+  [...value].some(char => char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f);
+
+export const assertHeaderSafe = (field: string, value: string): string => {
+  if (hasControlCharacters(value)) {
+    throw new Error(`${field} contains control characters and was not sent`);
+  }
+  return value;
+};
+
+// Non-ASCII header text as an RFC 2047 encoded word
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+// Base64 in lines of 76 characters, as MIME requires
+const encodeBody = (text: string): string =>
+  Buffer.from(text.replace(/\r?\n/g, CRLF), 'utf8').toString('base64').replace(/.{1,76}/g, line => line + CRLF);
+
+// Plain text on its own, or multipart/mixed when the message has
+// attachments such as a calendar invite
+export const formatEmail = (message: OutboxMessage, from: string): string => {
+  const domain = from.split('@')[1]?.replace(/>.*$/, '') || 'localhost';
+  const headers = [
+    `From: ${assertHeaderSafe('From', from)}`,
+    `To: ${assertHeaderSafe('To', message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date(message.createdAt).toUTCString()}`,
+    // The outbox id keeps retries of a message recognisable as the same email
+    `Message-ID: <${message.id}@${domain}>`,
+    'MIME-Version: 1.0'
+  ];
+  const textPart = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text)
+  ];
+
+  const attachments = message.attachments ?? [];
+  attachments.forEach(attachment => {
+    assertHeaderSafe('Attachment type', attachment.contentType);
+    assertHeaderSafe('Attachment filename', attachment.filename);
+  });
+  if (attachments.length === 0) {
+    return [...headers, ...textPart].join(CRLF);
+  }
+
+  const boundary = `----=_Part_${message.id}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    ...attachments.flatMap(attachment => [
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(attachment.content)
+    ]),
+    `--${boundary}--`,
+    ''
+  ].join(CRLF);
+};
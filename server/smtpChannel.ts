@@ -0,0 +1,179 @@
+// Sends notifications through an SMTP server. A deliberately small client:
+// one connection per message, STARTTLS when the server offers it, and AUTH
+// PLAIN when credentials are set. Credentials only go over TLS unless
+// allowInsecureAuth says otherwise. Any unexpected reply throws, so the
+// outbox retries the message later.
+import { connect as connectTcp, Socket } from 'node:net';
+import { connect as connectTls, TLSSocket } from 'node:tls';
+import { hostname } from 'node:os';
+import { NotificationChannel } from '../src/services/notifications';
+import { OutboxMessage } from '../src/services/types';
+import { formatEmail, hasControlCharacters } from './mime';
+
+export interface SmtpChannelOptions {
+  host: string;
+  port: number;
+  // TLS from the start (usually port 465) instead of STARTTLS
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  // Send credentials even when the connection isn't encrypted, e.g. to a
+  // relay on the same host
+  allowInsecureAuth?: boolean;
+  from: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Reads multi-line SMTP replies off a socket
+class SmtpConnection {
+  private buffer = '';
+  private waiting: ((reply: SmtpReply) => void) | null = null;
+  private failure: Error | null = null;
+  private rejectWaiting: ((error: Error) => void) | null = null;
+
+  constructor(private socket: Socket | TLSSocket, timeoutMs: number) {
+    this.attach(socket, timeoutMs);
+  }
+
+  private attach(socket: Socket | TLSSocket, timeoutMs: number) {
+    this.socket = socket;
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      this.flush();
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    this.rejectWaiting?.(this.failure);
+    this.waiting = null;
+    this.rejectWaiting = null;
+  }
+
+  // Hands a complete reply to the waiting reader, if there is one
+  private flush() {
+    if (!this.waiting) return;
+    const lines = this.buffer.split('\r\n');
+    const last = lines.slice(0, -1).findIndex(line => /^\d{3}(?: |$)/.test(line));
+    if (last === -1) return;
+
+    const reply = lines.slice(0, last + 1);
+    this.buffer = lines.slice(last + 1).join('\r\n');
+    const resolve = this.waiting;
+    this.waiting = null;
+    this.rejectWaiting = null;
+    resolve({ code: Number(reply[last].slice(0, 3)), lines: reply.map(line => line.slice(4)) });
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure);
+        return;
+      }
+      this.waiting = resolve;
+      this.rejectWaiting = reject;
+      this.flush();
+    });
+  }
+
+  async command(line: string, expected: number, shown = line): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (reply.code !== expected) {
+      throw new Error(`SMTP server answered "${shown}" with ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  async startTls(host: string, timeoutMs: number) {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+    const secured = await new Promise<TLSSocket>((resolve, reject) => {
+      const socket = connectTls({ socket: plain, servername: host }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+    this.buffer = '';
+    this.attach(secured, timeoutMs);
+  }
+
+  close() {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+  }
+}
+
+// Envelope address out of "Name <address>". Anything that could break out
+// of the SMTP command is refused rather than sent.
+const toAddress = (mailbox: string): string => {
+  const address = mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+  if (hasControlCharacters(address) || /[\s<>]/.test(address)) {
+    throw new Error(`Refusing to send to the malformed address ${JSON.stringify(address)}`);
+  }
+  return address;
+};
+
+export class SmtpChannel implements NotificationChannel {
+  readonly name = 'smtp';
+
+  constructor(private options: SmtpChannelOptions) {}
+
+  private open(): Promise<Socket | TLSSocket> {
+    const { host, port, secure } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket: Socket | TLSSocket = secure
+        ? connectTls({ host, port, servername: host }, () => resolve(socket))
+        : connectTcp({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: OutboxMessage): Promise<void> {
+    const { host, secure, user, pass, allowInsecureAuth = false, from, timeoutMs = 30000 } = this.options;
+    const connection = new SmtpConnection(await this.open(), timeoutMs);
+
+    try {
+      const greeting = await connection.read();
+      if (greeting.code !== 220) {
+        throw new Error(`SMTP server refused the connection: ${greeting.code} ${greeting.lines.join(' ')}`);
+      }
+
+      const hello = await connection.command(`EHLO ${hostname()}`, 250);
+      let encrypted = secure;
+      if (!secure && hello.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await connection.command('STARTTLS', 220);
+        await connection.startTls(host, timeoutMs);
+        await connection.command(`EHLO ${hostname()}`, 250);
+        encrypted = true;
+      }
+
+      if (user) {
+        if (!encrypted && !allowInsecureAuth) {
+          throw new Error(`SMTP server ${host} doesn't offer STARTTLS, refusing to send credentials unencrypted`);
+        }
+        const credentials = Buffer.from(`\0${user}\0${pass ?? ''}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, 235, 'AUTH PLAIN');
+      }
+
+      await connection.command(`MAIL FROM:<${toAddress(from)}>`, 250);
+      await connection.command(`RCPT TO:<${toAddress(message.to)}>`, 250);
+      await connection.command('DATA', 354);
+      // Lines starting with a dot are escaped so they can't end the message
+      const email = formatEmail(message, from).replace(/^\./gm, '..');
+      await connection.command(`${email}.`, 250, 'DATA');
+      await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
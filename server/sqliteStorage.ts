@@ -0,0 +1,89 @@
+// SQLite-file storage adapter for the Node server. Uses sql.js (SQLite
+// compiled to WebAssembly) so no native build step is needed.
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import initSqlJs, { Database } from 'sql.js';
+import { StorageAdapter } from '../src/services/storage';
+
+export class SqliteFileStorageAdapter implements StorageAdapter {
+  readonly name: string;
+  private db: Promise<Database> | null = null;
+
+  constructor(private filePath: string) {
+    this.name = `SQLite (${filePath})`;
+  }
+
+  private open(): Promise<Database> {
+    if (!this.db) {
+      this.db = initSqlJs().then(SQL => {
+        const db = existsSync(this.filePath)
+          ? new SQL.Database(readFileSync(this.filePath))
+          : new SQL.Database();
+        db.run(`
+          CREATE TABLE IF NOT EXISTS app_state (
+            id INTEGER PRIMARY KEY CHECK (id = 1),
+            payload TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+          )
+        `);
+        db.run(`
+          CREATE TABLE IF NOT EXISTS quarantined_snapshots (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            payload TEXT NOT NULL,
+            reason TEXT NOT NULL,
+            quarantined_at TEXT NOT NULL
+          )
+        `);
+        return db;
+      });
+    }
+    return this.db;
+  }
+
+  async load(): Promise<string | null> {
+    const db = await this.open();
+    const result = db.exec('SELECT payload FROM app_state WHERE id = 1');
+    const value = result[0]?.values[0]?.[0];
+    return typeof value === 'string' ? value : null;
+  }
+
+  async save(snapshot: string): Promise<void> {
+    await this.write(db => {
+      db.run(
+        `INSERT INTO app_state (id, payload, updated_at) VALUES (1, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET payload = excluded.payload, updated_at = excluded.updated_at`,
+        [snapshot, new Date().toISOString()]
+      );
+    });
+  }
+
+  async quarantine(snapshot: string, reason: string): Promise<void> {
+    await this.write(db => {
+      db.run(
+        'INSERT INTO quarantined_snapshots (payload, reason, quarantined_at) VALUES (?, ?, ?)',
+        [snapshot, reason, new Date().toISOString()]
+      );
+    });
+  }
+
+  // Runs the statements in a transaction, then flushes the database file
+  private async write(statements: (db: Database) => void): Promise<void> {
+    const db = await this.open();
+
+    db.run('BEGIN');
+    try {
+      statements(db);
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+
+    // Write to a temporary file and rename it over the old one so a crash
+    // mid-write never leaves a truncated database behind
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, db.export());
+    renameSync(tempPath, this.filePath);
+  }
+}
@@ -7,6 +7,8 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Navigation from "./components/Navigation";
 import CustomerBooking from "./pages/CustomerBooking";
 import AdminDashboard from "./pages/AdminDashboard";
+import ManageBooking from "./pages/ManageBooking";
+import ManageWaitlist from "./pages/ManageWaitlist";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,6 +24,8 @@ const App = () => (
           <Routes>
             <Route path="/" element={<CustomerBooking />} />
             <Route path="/admin" element={<AdminDashboard />} />
+            <Route path="/booking/:id/manage" element={<ManageBooking />} />
+            <Route path="/waitlist/:id" element={<ManageWaitlist />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </div>
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { CalendarPlus } from 'lucide-react';
+import { appointmentService, Booking } from '../services/appointmentService';
+import { getCalendarMethod } from '../services/calendarInvite';
+import { useToast } from '../hooks/use-toast';
+
+interface AddToCalendarButtonProps {
+  booking: Booking;
+  className?: string;
+}
+
+// Downloads the booking's .ics file. Shows nothing until the booking is
+// approved; for a cancelled booking it downloads the cancellation, which
+// removes the event from calendars that imported the invite.
+const AddToCalendarButton: React.FC<AddToCalendarButtonProps> = ({ booking, className = '' }) => {
+  const [downloading, setDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const method = getCalendarMethod(booking);
+  if (!method) return null;
+
+  const handleDownload = async () => {
+    try {
+      setDownloading(true);
+      const response = await appointmentService.getCalendarInvite(booking.id, booking.manageToken);
+      if (!response.success || !response.data) {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to download the calendar invite",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const blob = new Blob([response.data.content], { type: response.data.contentType });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.data.filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleDownload}
+      disabled={downloading}
+      className={`flex items-center justify-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200 disabled:opacity-50 ${className}`}
+    >
+      <CalendarPlus className="w-4 h-4" />
+      <span>{method === 'CANCEL' ? 'Remove from Calendar (.ics)' : 'Add to Calendar (.ics)'}</span>
+    </button>
+  );
+};
+
+export default AddToCalendarButton;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { appointmentService, setAdminToken } from '../services/appointmentService';
+
+interface AdminSignInProps {
+  onSignedIn: () => void;
+}
+
+// Asks for the server's admin token (ADMIN_TOKEN, or the one it printed at
+// startup) and checks it against an admin route before keeping it
+const AdminSignIn: React.FC<AdminSignInProps> = ({ onSignedIn }) => {
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setAdminToken(token.trim());
+
+    const response = await appointmentService.getAllBookings();
+    setLoading(false);
+    if (response.success) {
+      onSignedIn();
+      return;
+    }
+
+    setAdminToken(null);
+    setError(response.error?.code === 401
+      ? 'That admin token was not accepted'
+      : response.error?.message || 'Failed to reach the server');
+  };
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16">
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <div className="text-center mb-6">
+          <div className="mx-auto w-16 h-16 bg-gradient-to-r from-blue-500 to-purple-500 rounded-full flex items-center justify-center mb-4">
+            <KeyRound className="w-8 h-8 text-white" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Admin Sign In</h2>
+          <p className="text-sm text-gray-600">
+            Enter the admin token the appointment server was started with.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+            placeholder="Admin token"
+            autoComplete="current-password"
+            required
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={loading || !token.trim()}
+            className="w-full px-4 py-3 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Checking...' : 'Sign In'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AdminSignIn;
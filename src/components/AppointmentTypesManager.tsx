@@ -0,0 +1,320 @@
+import React, { useState, useEffect } from 'react';
+import { Tag, Plus, Trash2, Pencil, Clock, Users } from 'lucide-react';
+import { appointmentService, AppointmentType, AppointmentTypeInput } from '../services/appointmentService';
+import { MAX_BUFFER_MINUTES, MAX_CAPACITY } from '../services/appointmentTypes';
+import { useToast } from '../hooks/use-toast';
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+const createEmptyForm = (): AppointmentTypeInput => ({
+  name: '',
+  durationMinutes: 30,
+  description: '',
+  color: '#3b82f6',
+  capacity: 1,
+  bufferBeforeMinutes: null,
+  bufferAfterMinutes: null
+});
+
+// Empty buffer inputs fall back to the business-wide buffers
+const toBuffer = (value: string): number | null => (value === '' ? null : Number(value));
+
+const AppointmentTypesManager = () => {
+  const [appointmentTypes, setAppointmentTypes] = useState<AppointmentType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<AppointmentTypeInput>(createEmptyForm);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadAppointmentTypes();
+  }, []);
+
+  const loadAppointmentTypes = async () => {
+    try {
+      setLoading(true);
+      const response = await appointmentService.getAppointmentTypes();
+      if (response.success && response.data) {
+        setAppointmentTypes(response.data);
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to load appointment types",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load appointment types",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditingId(null);
+    setFormData(createEmptyForm());
+    setShowForm(true);
+  };
+
+  const openEditForm = (type: AppointmentType) => {
+    setEditingId(type.id);
+    setFormData({
+      name: type.name,
+      durationMinutes: type.durationMinutes,
+      description: type.description,
+      color: type.color,
+      capacity: type.capacity,
+      bufferBeforeMinutes: type.bufferBeforeMinutes,
+      bufferAfterMinutes: type.bufferAfterMinutes
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = editingId
+        ? await appointmentService.updateAppointmentType(editingId, formData)
+        : await appointmentService.createAppointmentType(formData);
+
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: editingId ? "Appointment type updated" : "Appointment type created",
+        });
+        setShowForm(false);
+        setEditingId(null);
+        await loadAppointmentTypes();
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.details || response.error?.message || "Failed to save appointment type",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (typeId: string) => {
+    try {
+      const response = await appointmentService.deleteAppointmentType(typeId);
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: "Appointment type deleted",
+        });
+        await loadAppointmentTypes();
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to delete appointment type",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, index) => (
+          <div key={index} className="animate-pulse bg-gray-100 rounded-lg p-4 h-20"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-gray-900">Appointment Types</h3>
+        <button
+          onClick={openCreateForm}
+          className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Type</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 space-y-4 border border-gray-200">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g., 60-minute consultation"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Duration</label>
+              <select
+                value={formData.durationMinutes}
+                onChange={(e) => setFormData({ ...formData, durationMinutes: Number(e.target.value) })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {Array.from(new Set([formData.durationMinutes, ...DURATION_OPTIONS]))
+                  .sort((a, b) => a - b)
+                  .map((minutes) => (
+                    <option key={minutes} value={minutes}>{minutes} minutes</option>
+                  ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              placeholder="Shown to customers when they pick a type"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <label className="text-sm font-medium text-gray-700">Color</label>
+            <input
+              type="color"
+              value={formData.color}
+              onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+              className="w-10 h-10 border border-gray-300 rounded-lg cursor-pointer"
+            />
+            <label className="text-sm font-medium text-gray-700 pl-4">Seats per session</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_CAPACITY}
+              value={formData.capacity}
+              onChange={(e) => setFormData({ ...formData, capacity: Number(e.target.value) })}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              title="More than 1 lets several customers book the same session, e.g. a class"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Buffer before (minutes)</label>
+              <input
+                type="number"
+                min={0}
+                max={MAX_BUFFER_MINUTES}
+                value={formData.bufferBeforeMinutes ?? ''}
+                onChange={(e) => setFormData({ ...formData, bufferBeforeMinutes: toBuffer(e.target.value) })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Business default"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Buffer after (minutes)</label>
+              <input
+                type="number"
+                min={0}
+                max={MAX_BUFFER_MINUTES}
+                value={formData.bufferAfterMinutes ?? ''}
+                onChange={(e) => setFormData({ ...formData, bufferAfterMinutes: toBuffer(e.target.value) })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Business default"
+              />
+            </div>
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200"
+            >
+              {editingId ? 'Save Changes' : 'Create Type'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="space-y-3">
+        {appointmentTypes.map((type) => (
+          <div key={type.id} className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+            <div className="flex justify-between items-start">
+              <div className="flex items-start space-x-3">
+                <span className="w-4 h-4 rounded-full mt-1 flex-shrink-0" style={{ backgroundColor: type.color }}></span>
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <Tag className="w-4 h-4 text-gray-500" />
+                    <span className="font-medium text-gray-900">{type.name}</span>
+                    <span className="flex items-center text-sm text-gray-500">
+                      <Clock className="w-3 h-3 mr-1" />
+                      {type.durationMinutes} min
+                    </span>
+                    {type.capacity > 1 && (
+                      <span className="flex items-center text-sm text-gray-500">
+                        <Users className="w-3 h-3 mr-1" />
+                        Up to {type.capacity} per session
+                      </span>
+                    )}
+                    {(type.bufferBeforeMinutes !== null || type.bufferAfterMinutes !== null) && (
+                      <span className="text-sm text-gray-500">
+                        Buffers: {type.bufferBeforeMinutes ?? 'default'} before, {type.bufferAfterMinutes ?? 'default'} after
+                      </span>
+                    )}
+                  </div>
+                  {type.description && (
+                    <p className="text-sm text-gray-600 mt-1">{type.description}</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <button
+                  onClick={() => openEditForm(type)}
+                  className="p-2 text-blue-500 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                  title="Edit type"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(type.id)}
+                  disabled={appointmentTypes.length === 1}
+                  className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={appointmentTypes.length === 1 ? 'At least one type is required' : 'Delete type'}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AppointmentTypesManager;
@@ -1,30 +1,105 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, Clock, Plus, Trash2, Save, X } from 'lucide-react';
-import { appointmentService, AvailabilityRule } from '../services/appointmentService';
+import { Calendar, Clock, Plus, Trash2, Save, X, Repeat, Undo2, AlertTriangle, User, Users } from 'lucide-react';
+import {
+  appointmentService,
+  AvailabilityRule,
+  Provider,
+  RuleConflictResolution,
+  RuleRecurrence,
+  ScheduleConfig,
+  SetAvailabilityInput
+} from '../services/appointmentService';
+import { WEEKDAY_NAMES, generateSlotTimes, getSlotTimesForWeekday, timeToMinutes } from '../services/schedule';
+import { describeRecurrence, expandRuleOccurrences } from '../services/recurrence';
+import { getProviderSchedule } from '../services/providers';
+import { addDaysToDateKey, getLocalTimeZone, getWeekdayOfDateKey, toDateKey } from '../services/timezone';
 import { useToast } from '../hooks/use-toast';
 
+type RepeatMode = 'none' | 'weekly' | 'dateRange';
+
+const createEmptyForm = () => ({
+  date: '',
+  selectedTimes: new Set<string>(),
+  isBlocked: true,
+  reason: '',
+  repeat: 'none' as RepeatMode,
+  weekdays: [] as number[],
+  intervalWeeks: 1,
+  endDate: '',
+  // Empty applies the rule to every provider
+  providerId: '',
+  // Seats per session for opened times; empty keeps each type's capacity
+  capacity: ''
+});
+
+// Monday first, matching the business hours editor
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
 const AvailabilityManager = () => {
   const [rules, setRules] = useState<AvailabilityRule[]>([]);
+  const [scheduleConfig, setScheduleConfig] = useState<ScheduleConfig | null>(null);
+  const [providers, setProviders] = useState<Provider[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
-  const [formData, setFormData] = useState({
-    date: '',
-    selectedTimes: new Set<string>(),
-    isBlocked: true,
-    reason: ''
-  });
+  const [formData, setFormData] = useState(createEmptyForm);
+  // Existing rules the rule being saved overlaps, awaiting the admin's choice
+  const [conflicts, setConflicts] = useState<AvailabilityRule[] | null>(null);
+  const [saving, setSaving] = useState(false);
   const { toast } = useToast();
 
-  const timeSlots = [
-    '09:00', '09:30', '10:00', '10:30', '11:00', '11:30',
-    '12:00', '12:30', '13:00', '13:30', '14:00', '14:30',
-    '15:00', '15:30', '16:00', '16:30'
-  ];
+  // Weekdays the rule can fall on: the start date's for one-off rules, the
+  // chosen ones for weekly rules and every day for date ranges
+  const ruleWeekdays = !formData.date
+    ? []
+    : formData.repeat === 'weekly'
+    ? formData.weekdays
+    : formData.repeat === 'dateRange'
+    ? [0, 1, 2, 3, 4, 5, 6]
+    : [getWeekdayOfDateKey(formData.date)];
+
+  // Time slots offered on those days, derived from the business hours or
+  // the selected provider's own hours
+  const ruleProvider = providers.find(provider => provider.id === formData.providerId);
+  const ruleSchedule = scheduleConfig && ruleProvider ? getProviderSchedule(scheduleConfig, ruleProvider) : scheduleConfig;
+  const regularTimes = ruleSchedule
+    ? Array.from(new Set(ruleWeekdays.flatMap(weekday => getSlotTimesForWeekday(ruleSchedule, weekday))))
+        .sort((a, b) => timeToMinutes(a) - timeToMinutes(b))
+    : [];
+
+  // Blocking only makes sense for regular slots, but "available" rules can
+  // open any time of day at the configured slot length
+  const timeSlots = scheduleConfig && ruleWeekdays.length > 0 && !formData.isBlocked
+    ? generateSlotTimes([{ start: '00:00', end: '23:59' }], scheduleConfig.slotLengthMinutes)
+    : regularTimes;
+
+  const today = toDateKey(new Date(), scheduleConfig?.timeZone ?? getLocalTimeZone());
 
   useEffect(() => {
     loadRules();
+    loadScheduleConfig();
+    loadProviders();
   }, []);
 
+  const loadProviders = async () => {
+    const response = await appointmentService.getProviders();
+    if (response.success && response.data) {
+      setProviders(response.data);
+    }
+  };
+
+  const loadScheduleConfig = async () => {
+    const response = await appointmentService.getScheduleConfig();
+    if (response.success && response.data) {
+      setScheduleConfig(response.data);
+    } else {
+      toast({
+        title: "Error",
+        description: response.error?.message || "Failed to load business hours",
+        variant: "destructive",
+      });
+    }
+  };
+
   const loadRules = async () => {
     try {
       setLoading(true);
@@ -62,6 +137,15 @@ const AvailabilityManager = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    if (formData.repeat === 'weekly' && formData.weekdays.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please pick at least one weekday to repeat on",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!formData.date || formData.selectedTimes.size === 0) {
       toast({
         title: "Error",
@@ -72,30 +156,65 @@ const AvailabilityManager = () => {
     }
 
     try {
-      const result = await appointmentService.setAvailability({
-        date: formData.date,
-        timeSlots: Array.from(formData.selectedTimes),
-        isBlocked: formData.isBlocked,
-        reason: formData.reason
+      // Check for overlapping rules first so the admin can decide what happens
+      const conflictResult = await appointmentService.findRuleConflicts(buildRuleInput());
+      if (conflictResult.success && conflictResult.data && conflictResult.data.length > 0) {
+        setConflicts(conflictResult.data);
+        return;
+      }
+
+      await saveRule('reject');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
       });
+    }
+  };
+
+  const buildRuleInput = (): SetAvailabilityInput => {
+    const endDate = formData.endDate || undefined;
+    const recurrence: RuleRecurrence | undefined =
+      formData.repeat === 'weekly'
+        ? { type: 'weekly', weekdays: formData.weekdays, intervalWeeks: formData.intervalWeeks, until: endDate }
+        : formData.repeat === 'dateRange'
+        ? { type: 'dateRange', endDate }
+        : undefined;
+
+    return {
+      date: formData.date,
+      timeSlots: Array.from(formData.selectedTimes),
+      isBlocked: formData.isBlocked,
+      reason: formData.reason,
+      recurrence,
+      providerId: formData.providerId || undefined,
+      capacity: !formData.isBlocked && formData.capacity ? Number(formData.capacity) : undefined
+    };
+  };
+
+  const saveRule = async (onConflict: RuleConflictResolution) => {
+    try {
+      setSaving(true);
+      const result = await appointmentService.setAvailability({ ...buildRuleInput(), onConflict });
 
       if (result.success) {
         toast({
           title: "Success",
-          description: `Availability ${formData.isBlocked ? 'blocked' : 'set'} successfully`,
+          description: onConflict === 'merge'
+            ? 'Rule merged with existing availability'
+            : onConflict === 'replace'
+            ? 'Overlapping rules replaced'
+            : formData.isBlocked ? 'Time slots blocked successfully' : 'Extra slots opened successfully',
         });
+        setConflicts(null);
         setShowForm(false);
-        setFormData({
-          date: '',
-          selectedTimes: new Set(),
-          isBlocked: true,
-          reason: ''
-        });
+        setFormData(createEmptyForm());
         await loadRules();
       } else {
         toast({
           title: "Error",
-          description: typeof result.error === 'string' ? result.error : result.error?.message || "Failed to set availability",
+          description: result.error?.details || result.error?.message || "Failed to set availability",
           variant: "destructive",
         });
       }
@@ -105,6 +224,8 @@ const AvailabilityManager = () => {
         description: "An unexpected error occurred",
         variant: "destructive",
       });
+    } finally {
+      setSaving(false);
     }
   };
 
@@ -134,8 +255,45 @@ const AvailabilityManager = () => {
     }
   };
 
+  const handleWeekdayToggle = (weekday: number) => {
+    const weekdays = formData.weekdays.includes(weekday)
+      ? formData.weekdays.filter(day => day !== weekday)
+      : [...formData.weekdays, weekday];
+    setFormData({ ...formData, weekdays, selectedTimes: new Set() });
+  };
+
+  // Skips (or restores) a single occurrence of a recurring rule
+  const handleToggleException = async (rule: AvailabilityRule, date: string) => {
+    const isException = rule.exceptions?.includes(date);
+    try {
+      const result = isException
+        ? await appointmentService.removeRuleException(rule.id, date)
+        : await appointmentService.addRuleException(rule.id, date);
+
+      if (result.success) {
+        toast({
+          title: "Success",
+          description: isException ? `${formatDate(date)} restored` : `${formatDate(date)} skipped`,
+        });
+        await loadRules();
+      } else {
+        toast({
+          title: "Error",
+          description: result.error?.message || "Failed to update rule",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+    const date = new Date(`${dateString}T00:00:00`);
     return date.toLocaleDateString('en-US', { 
       weekday: 'long', 
       year: 'numeric', 
@@ -152,9 +310,12 @@ const AvailabilityManager = () => {
     return `${hour12}:${minutes} ${ampm}`;
   };
 
+  const getProviderName = (providerId?: string) =>
+    providerId ? providers.find(provider => provider.id === providerId)?.name ?? 'Removed provider' : 'All providers';
+
+  // Today in the business's timezone, since rules are business-local
   const getMinDate = () => {
-    const today = new Date();
-    return today.toISOString().split('T')[0];
+    return today;
   };
 
   return (
@@ -190,14 +351,28 @@ const AvailabilityManager = () => {
                   <div className="flex-1">
                     <div className="flex items-center space-x-2 mb-2">
                       <Calendar className="w-4 h-4 text-blue-500" />
-                      <span className="font-medium">{formatDate(rule.date)}</span>
+                      <span className="font-medium">
+                        {rule.recurrence ? `From ${formatDate(rule.date)}` : formatDate(rule.date)}
+                      </span>
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                         rule.isBlocked 
                           ? 'bg-red-100 text-red-800' 
                           : 'bg-green-100 text-green-800'
                       }`}>
-                        {rule.isBlocked ? 'Blocked' : 'Available'}
+                        {rule.isBlocked ? 'Blocked' : 'Extra Slots'}
                       </span>
+                      {providers.length > 1 && (
+                        <span className="flex items-center text-xs text-gray-600">
+                          <User className="w-3 h-3 mr-1" />
+                          {getProviderName(rule.providerId)}
+                        </span>
+                      )}
+                      {rule.capacity && (
+                        <span className="flex items-center text-xs text-gray-600">
+                          <Users className="w-3 h-3 mr-1" />
+                          {rule.capacity} seats per session
+                        </span>
+                      )}
                     </div>
                     
                     <div className="flex flex-wrap gap-2 mb-2">
@@ -211,6 +386,42 @@ const AvailabilityManager = () => {
                       ))}
                     </div>
                     
+                    {rule.recurrence && (
+                      <div className="mb-2 space-y-2">
+                        <p className="text-sm text-gray-700 flex items-center">
+                          <Repeat className="w-4 h-4 mr-1 text-purple-500" />
+                          {describeRecurrence(rule)}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {expandRuleOccurrences(rule, today, addDaysToDateKey(today, 366), 6).map((date) => (
+                            <button
+                              key={date}
+                              onClick={() => handleToggleException(rule, date)}
+                              className="px-2 py-1 bg-purple-50 text-purple-700 rounded text-xs hover:bg-purple-100"
+                              title="Skip this occurrence"
+                            >
+                              {formatDate(date)} <X className="w-3 h-3 inline" />
+                            </button>
+                          ))}
+                        </div>
+                        {rule.exceptions && rule.exceptions.length > 0 && (
+                          <div className="flex flex-wrap gap-2 items-center">
+                            <span className="text-xs text-gray-500">Skipped:</span>
+                            {rule.exceptions.map((date) => (
+                              <button
+                                key={date}
+                                onClick={() => handleToggleException(rule, date)}
+                                className="px-2 py-1 bg-gray-100 text-gray-500 line-through rounded text-xs hover:bg-gray-200"
+                                title="Restore this occurrence"
+                              >
+                                {formatDate(date)} <Undo2 className="w-3 h-3 inline" />
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {rule.reason && (
                       <p className="text-sm text-gray-600 italic">{rule.reason}</p>
                     )}
@@ -245,20 +456,101 @@ const AvailabilityManager = () => {
               </div>
 
               <form onSubmit={handleSubmit} className="space-y-6">
+                {providers.length > 1 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Provider
+                    </label>
+                    <select
+                      value={formData.providerId}
+                      onChange={(e) => setFormData({ ...formData, providerId: e.target.value, selectedTimes: new Set() })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">All providers</option>
+                      {providers.map((provider) => (
+                        <option key={provider.id} value={provider.id}>{provider.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Date
+                    {formData.repeat === 'none' ? 'Date' : 'Start Date'}
                   </label>
                   <input
                     type="date"
                     value={formData.date}
                     min={getMinDate()}
-                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    onChange={(e) => setFormData({ ...formData, date: e.target.value, selectedTimes: new Set() })}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     required
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Repeat
+                  </label>
+                  <select
+                    value={formData.repeat}
+                    onChange={(e) => setFormData({ ...formData, repeat: e.target.value as RepeatMode, selectedTimes: new Set() })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="none">Does not repeat</option>
+                    <option value="weekly">Weekly on selected days</option>
+                    <option value="dateRange">Every day in a date range</option>
+                  </select>
+
+                  {formData.repeat === 'weekly' && (
+                    <div className="mt-3 space-y-3">
+                      <div className="flex flex-wrap gap-2">
+                        {WEEKDAY_ORDER.map((weekday) => (
+                          <button
+                            key={weekday}
+                            type="button"
+                            onClick={() => handleWeekdayToggle(weekday)}
+                            className={`px-3 py-1 text-sm rounded-lg border transition-all duration-200 ${
+                              formData.weekdays.includes(weekday)
+                                ? 'bg-purple-500 text-white border-purple-500'
+                                : 'bg-white text-gray-700 border-gray-300 hover:border-purple-300'
+                            }`}
+                          >
+                            {WEEKDAY_NAMES[weekday].slice(0, 3)}
+                          </button>
+                        ))}
+                      </div>
+                      <label className="flex items-center text-sm text-gray-700">
+                        Every
+                        <input
+                          type="number"
+                          min={1}
+                          max={52}
+                          value={formData.intervalWeeks}
+                          onChange={(e) => setFormData({ ...formData, intervalWeeks: Number(e.target.value) })}
+                          className="mx-2 w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        week(s)
+                      </label>
+                    </div>
+                  )}
+
+                  {formData.repeat !== 'none' && (
+                    <div className="mt-3">
+                      <label className="block text-sm text-gray-700 mb-1">
+                        End Date (optional)
+                      </label>
+                      <input
+                        type="date"
+                        value={formData.endDate}
+                        min={formData.date || getMinDate()}
+                        onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Action
@@ -268,7 +560,7 @@ const AvailabilityManager = () => {
                       <input
                         type="radio"
                         checked={formData.isBlocked}
-                        onChange={() => setFormData({ ...formData, isBlocked: true })}
+                        onChange={() => setFormData({ ...formData, isBlocked: true, selectedTimes: new Set() })}
                         className="mr-2"
                       />
                       Block Time Slots
@@ -280,15 +572,44 @@ const AvailabilityManager = () => {
                         onChange={() => setFormData({ ...formData, isBlocked: false })}
                         className="mr-2"
                       />
-                      Set Available
+                      Open Extra Slots
                     </label>
                   </div>
+                  {!formData.isBlocked && (
+                    <>
+                      <p className="text-xs text-gray-500 mt-2">
+                        Opens bookable slots at the selected times, even outside business hours.
+                        Blocking rules on the same time take precedence.
+                      </p>
+                      <div className="flex items-center space-x-3 mt-3">
+                        <label className="text-sm font-medium text-gray-700">Seats per session</label>
+                        <input
+                          type="number"
+                          min={1}
+                          value={formData.capacity}
+                          onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+                          className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="Type's"
+                        />
+                        <span className="text-xs text-gray-500">Leave empty to use each appointment type's capacity</span>
+                      </div>
+                    </>
+                  )}
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Time Slots
                   </label>
+                  {timeSlots.length === 0 && (
+                    <p className="text-sm text-gray-500">
+                      {!formData.date
+                        ? 'Select a date to see its time slots'
+                        : formData.repeat === 'weekly' && formData.weekdays.length === 0
+                        ? 'Pick the weekdays to repeat on'
+                        : 'The business is closed on the selected days'}
+                    </p>
+                  )}
                   <div className="grid grid-cols-4 gap-2">
                     {timeSlots.map((time) => (
                       <button
@@ -298,8 +619,11 @@ const AvailabilityManager = () => {
                         className={`p-2 text-sm rounded-lg border transition-all duration-200 ${
                           formData.selectedTimes.has(time)
                             ? 'bg-blue-500 text-white border-blue-500'
+                            : !formData.isBlocked && regularTimes.includes(time)
+                            ? 'bg-gray-50 text-gray-400 border-gray-200 hover:border-blue-300'
                             : 'bg-white text-gray-700 border-gray-300 hover:border-blue-300'
                         }`}
+                        title={!formData.isBlocked && regularTimes.includes(time) ? 'Already within business hours; only the seats per session apply' : undefined}
                       >
                         {formatTime(time)}
                       </button>
@@ -330,6 +654,7 @@ const AvailabilityManager = () => {
                   </button>
                   <button
                     type="submit"
+                    disabled={saving}
                     className="flex-1 px-4 py-3 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200"
                   >
                     <Save className="w-4 h-4 inline mr-2" />
@@ -341,6 +666,69 @@ const AvailabilityManager = () => {
           </div>
         </div>
       )}
+
+      {/* Overlap Resolution Modal */}
+      {conflicts && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6">
+            <div className="flex items-center space-x-2 mb-4">
+              <AlertTriangle className="w-5 h-5 text-yellow-500" />
+              <h3 className="text-xl font-semibold text-gray-900">Overlapping Rules</h3>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              This rule shares dates and times with {conflicts.length} existing rule{conflicts.length === 1 ? '' : 's'}:
+            </p>
+
+            <div className="space-y-2 mb-6">
+              {conflicts.map((rule) => (
+                <div key={rule.id} className="border border-gray-100 rounded-lg p-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      {rule.recurrence ? `${describeRecurrence(rule)} from ${formatDate(rule.date)}` : formatDate(rule.date)}
+                    </span>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      rule.isBlocked ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                    }`}>
+                      {rule.isBlocked ? 'Blocked' : 'Extra Slots'}
+                    </span>
+                  </div>
+                  <p className="text-gray-600 mt-1">{rule.timeSlots.map(formatTime).join(', ')}</p>
+                  {rule.reason && <p className="text-gray-500 italic mt-1">{rule.reason}</p>}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2 text-xs text-gray-500 mb-4">
+              <p><strong>Merge</strong> adds these times to a matching rule with the same action and dates, and keeps the other rules.</p>
+              <p><strong>Replace</strong> deletes the rules above and saves the new one.</p>
+            </div>
+
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setConflicts(null)}
+                disabled={saving}
+                className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => saveRule('merge')}
+                disabled={saving}
+                className="flex-1 px-4 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors duration-200 disabled:opacity-50"
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => saveRule('replace')}
+                disabled={saving}
+                className="flex-1 px-4 py-3 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors duration-200 disabled:opacity-50"
+              >
+                Replace
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,17 +1,37 @@
 
-import React, { useState } from 'react';
-import { User, Mail, MessageSquare, Calendar, Clock } from 'lucide-react';
-import { TimeSlot } from '../services/appointmentService';
+import React, { useState, useEffect } from 'react';
+import { User, Mail, MessageSquare, Calendar, Clock, Tag, Timer } from 'lucide-react';
+import { AppointmentType, TimeSlot } from '../services/appointmentService';
+import { findOpenSessions, findProvidersForSpan, getSlotsNeeded } from '../services/appointmentTypes';
+import { getLocalTimeZone, getTimeZoneLabel, toDateKey, toTimeKey } from '../services/timezone';
 
 interface BookingFormProps {
   selectedSlot: TimeSlot | null;
-  onSubmit: (data: { name: string; email: string; reason: string }) => void;
+  businessTimeZone?: string;
+  // Name of the provider the customer picked, if not "any"
+  providerName?: string;
+  // Used to work out which appointment types fit from the selected slot
+  slots?: TimeSlot[];
+  slotLengthMinutes?: number;
+  appointmentTypes?: AppointmentType[];
+  // When the slot hold placed for this form runs out
+  holdExpiresAt?: string;
+  // Called with the type picked, including the one picked up front
+  onAppointmentTypeChange?: (appointmentTypeId: string) => void;
+  onSubmit: (data: { name: string; email: string; reason: string; appointmentTypeId?: string }) => void;
   onCancel: () => void;
   loading?: boolean;
 }
 
 const BookingForm: React.FC<BookingFormProps> = ({
   selectedSlot,
+  businessTimeZone,
+  providerName,
+  slots = [],
+  slotLengthMinutes,
+  appointmentTypes = [],
+  holdExpiresAt,
+  onAppointmentTypeChange,
   onSubmit,
   onCancel,
   loading = false
@@ -22,13 +42,56 @@ const BookingForm: React.FC<BookingFormProps> = ({
     reason: ''
   });
 
+  // A type fits when every slot it needs after the selected one is free
+  // with the same provider, or when a group session of it has a seat left
+  const fitsSelectedSlot = (type: AppointmentType) => {
+    if (!selectedSlot || !slotLengthMinutes) return true;
+    if (findOpenSessions(selectedSlot, type.id).length > 0) return true;
+    const slotsNeeded = getSlotsNeeded(type.durationMinutes, slotLengthMinutes);
+    return findProvidersForSpan(slots, selectedSlot.id, slotsNeeded).length > 0;
+  };
+
+  // Seats shown for group types: what's left in sessions already booked at
+  // this time, or the size of a new session
+  const describeSeats = (type: AppointmentType) => {
+    const sessions = selectedSlot?.sessions.filter(session => session.appointmentTypeId === type.id) ?? [];
+    const seatsLeft = sessions.reduce((total, session) => total + session.seatsRemaining, 0);
+    if (seatsLeft > 0) return `${seatsLeft} seat${seatsLeft === 1 ? '' : 's'} left`;
+    const capacity = selectedSlot?.capacity ?? type.capacity;
+    return capacity > 1 ? `${capacity} seats` : null;
+  };
+
+  const isSessionFull = (type: AppointmentType) =>
+    selectedSlot?.sessions.some(session => session.appointmentTypeId === type.id && session.seatsRemaining === 0) ?? false;
+
+  const [appointmentTypeId, setAppointmentTypeId] = useState<string | undefined>(
+    () => appointmentTypes.find(fitsSelectedSlot)?.id
+  );
+  const selectedType = appointmentTypes.find(type => type.id === appointmentTypeId);
+
+  useEffect(() => {
+    if (appointmentTypeId) onAppointmentTypeChange?.(appointmentTypeId);
+  }, [appointmentTypeId]);
+
+  // Seconds left on the hold, counted down locally
+  const [holdSecondsLeft, setHoldSecondsLeft] = useState<number | null>(null);
+  useEffect(() => {
+    if (!holdExpiresAt) return;
+    const tick = () => setHoldSecondsLeft(
+      Math.max(0, Math.round((new Date(holdExpiresAt).getTime() - Date.now()) / 1000))
+    );
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [holdExpiresAt]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    onSubmit({ ...formData, appointmentTypeId });
   };
 
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+    const date = new Date(`${dateString}T00:00:00`);
     return date.toLocaleDateString('en-US', { 
       weekday: 'long', 
       year: 'numeric', 
@@ -47,6 +110,15 @@ const BookingForm: React.FC<BookingFormProps> = ({
 
   if (!selectedSlot) return null;
 
+  // Shown in the visitor's own timezone, with business time when it differs
+  const visitorTimeZone = getLocalTimeZone();
+  const startsAt = new Date(selectedSlot.startsAt);
+  const localTime = toTimeKey(startsAt, visitorTimeZone);
+  const showBusinessTime = businessTimeZone && localTime !== selectedSlot.time;
+  const endsAt = selectedType
+    ? new Date(startsAt.getTime() + selectedType.durationMinutes * 60000)
+    : new Date(selectedSlot.endsAt);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
@@ -59,16 +131,85 @@ const BookingForm: React.FC<BookingFormProps> = ({
             <div className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-lg p-3">
               <div className="flex items-center justify-center space-x-2 text-sm text-gray-600">
                 <Calendar className="w-4 h-4" />
-                <span>{formatDate(selectedSlot.date)}</span>
+                <span>{formatDate(toDateKey(startsAt, visitorTimeZone))}</span>
               </div>
               <div className="flex items-center justify-center space-x-2 text-lg font-semibold text-gray-900 mt-1">
                 <Clock className="w-4 h-4" />
-                <span>{formatTime(selectedSlot.time)}</span>
+                <span>{formatTime(localTime)} – {formatTime(toTimeKey(endsAt, visitorTimeZone))}</span>
               </div>
+              {providerName && (
+                <div className="text-sm text-gray-600 mt-1">with {providerName}</div>
+              )}
+              {showBusinessTime && (
+                <div className="text-xs text-gray-500 mt-1">
+                  {formatDate(selectedSlot.date)}, {formatTime(selectedSlot.time)} {getTimeZoneLabel(businessTimeZone, startsAt)} (business time)
+                </div>
+              )}
             </div>
+            {holdExpiresAt && holdSecondsLeft !== null && (
+              holdSecondsLeft > 0 ? (
+                <div className="flex items-center justify-center space-x-2 text-sm text-blue-700 mt-3">
+                  <Timer className="w-4 h-4" />
+                  <span>
+                    Held for you for {Math.floor(holdSecondsLeft / 60)}:{String(holdSecondsLeft % 60).padStart(2, '0')}
+                  </span>
+                </div>
+              ) : (
+                <div className="flex items-center justify-center space-x-2 text-sm text-amber-700 bg-amber-50 rounded-lg p-2 mt-3">
+                  <Timer className="w-4 h-4" />
+                  <span>Your hold has expired. You can still book if the time is free.</span>
+                </div>
+              )
+            )}
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-4">
+            {appointmentTypes.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Tag className="w-4 h-4 inline mr-2" />
+                  Appointment Type
+                </label>
+                <div className="space-y-2">
+                  {appointmentTypes.map(type => {
+                    const fits = fitsSelectedSlot(type);
+                    return (
+                      <button
+                        key={type.id}
+                        type="button"
+                        onClick={() => setAppointmentTypeId(type.id)}
+                        disabled={!fits}
+                        className={`w-full text-left px-4 py-3 border rounded-lg transition-colors duration-200 ${
+                          type.id === appointmentTypeId
+                            ? 'border-blue-500 bg-blue-50'
+                            : 'border-gray-300 hover:bg-gray-50'
+                        } disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-2">
+                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: type.color }}></span>
+                            <span className="font-medium text-gray-900">{type.name}</span>
+                          </div>
+                          <span className="text-sm text-gray-500">
+                            {type.durationMinutes} min
+                            {fits && describeSeats(type) && ` · ${describeSeats(type)}`}
+                          </span>
+                        </div>
+                        {type.description && (
+                          <p className="text-xs text-gray-500 mt-1">{type.description}</p>
+                        )}
+                        {!fits && (
+                          <p className="text-xs text-orange-600 mt-1">
+                            {isSessionFull(type) ? 'This session is full' : 'Not enough free time after this slot'}
+                          </p>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 <User className="w-4 h-4 inline mr-2" />
@@ -125,7 +266,7 @@ const BookingForm: React.FC<BookingFormProps> = ({
               </button>
               <button
                 type="submit"
-                disabled={loading}
+                disabled={loading || (appointmentTypes.length > 0 && !selectedType)}
                 className="flex-1 px-4 py-3 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {loading ? 'Booking...' : 'Book Appointment'}
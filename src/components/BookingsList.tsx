@@ -1,44 +1,132 @@
 
-import React from 'react';
-import { User, Mail, Calendar, Clock, MessageSquare, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
-import { Booking } from '../services/appointmentService';
+import React, { useState } from 'react';
+import {
+  User, Mail, UserCog, Calendar, Clock, MessageSquare, CheckCircle, XCircle, AlertCircle, Ban,
+  CalendarClock, LogIn, CheckCheck, UserX, History, StickyNote, MessageSquareText
+} from 'lucide-react';
+import { Booking, BookingEvent, BookingEventValues, BookingStatus, BookingStatusUpdate } from '../services/appointmentService';
+import { ASSIGNMENT_STRATEGY_LABELS } from '../services/assignment';
+import {
+  BOOKING_EVENT_LABELS,
+  BOOKING_STATUS_LABELS,
+  canTransition,
+  getTransitionTimingError,
+  isChangeableBooking
+} from '../services/bookings';
+
+// Buttons for the status changes an admin can make, shown only when the
+// booking's current status allows them
+const STATUS_ACTIONS: { status: BookingStatusUpdate; label: string; className: string }[] = [
+  { status: 'approved', label: 'Approve', className: 'bg-green-500 text-white hover:bg-green-600' },
+  { status: 'denied', label: 'Deny', className: 'bg-red-500 text-white hover:bg-red-600' },
+  { status: 'checked_in', label: 'Check In', className: 'bg-blue-500 text-white hover:bg-blue-600' },
+  { status: 'completed', label: 'Complete', className: 'bg-teal-500 text-white hover:bg-teal-600' },
+  { status: 'no_show', label: 'No-show', className: 'bg-orange-500 text-white hover:bg-orange-600' },
+  { status: 'cancelled', label: 'Cancel', className: 'border border-red-300 text-red-600 hover:bg-red-50' }
+];
 
 interface BookingsListProps {
   bookings: Booking[];
-  onUpdateStatus: (bookingId: string, status: 'approved' | 'denied') => void;
+  // Type id -> color, for tagging each booking with its appointment type
+  appointmentTypeColors?: Record<string, string>;
+  onUpdateStatus: (bookingId: string, status: BookingStatusUpdate) => void;
+  // Opens the reschedule dialog for a booking
+  onReschedule?: (booking: Booking) => void;
+  // Saves the admin's notes; resolves to whether it worked
+  onUpdateNotes?: (bookingId: string, notes: string) => Promise<boolean>;
   loading?: boolean;
 }
 
 const BookingsList: React.FC<BookingsListProps> = ({
   bookings,
+  appointmentTypeColors = {},
   onUpdateStatus,
+  onReschedule,
+  onUpdateNotes,
   loading = false
 }) => {
-  const getStatusIcon = (status: string) => {
+  // Bookings whose history is expanded
+  const [openTimelines, setOpenTimelines] = useState<string[]>([]);
+  const [notesDraft, setNotesDraft] = useState<{ bookingId: string; notes: string } | null>(null);
+  const [savingNotes, setSavingNotes] = useState(false);
+
+  const toggleTimeline = (bookingId: string) => {
+    setOpenTimelines(open =>
+      open.includes(bookingId) ? open.filter(id => id !== bookingId) : [...open, bookingId]
+    );
+  };
+
+  const handleSaveNotes = async () => {
+    if (!notesDraft || !onUpdateNotes) return;
+    setSavingNotes(true);
+    const saved = await onUpdateNotes(notesDraft.bookingId, notesDraft.notes);
+    setSavingNotes(false);
+    if (saved) setNotesDraft(null);
+  };
+
+  const describePlacement = (values: BookingEventValues) =>
+    `${values.startsAt ? new Date(values.startsAt).toLocaleString() : 'unknown time'} with ${values.providerName ?? 'unknown provider'}`;
+
+  const describeEvent = (event: BookingEvent) => {
+    const statusChange = event.next.status && event.previous?.status
+      ? `${BOOKING_STATUS_LABELS[event.previous.status]} → ${BOOKING_STATUS_LABELS[event.next.status]}`
+      : event.next.status && `Marked ${BOOKING_STATUS_LABELS[event.next.status].toLowerCase()}`;
+    switch (event.type) {
+      case 'created':
+        return `For ${describePlacement(event.next)}`;
+      case 'status_changed':
+        return event.next.decisionReason ? `${statusChange} · "${event.next.decisionReason}"` : statusChange;
+      case 'rescheduled':
+        return `From ${describePlacement(event.previous ?? {})} to ${describePlacement(event.next)}${event.next.status ? ` · ${statusChange}` : ''}`;
+      case 'notes_updated':
+        return event.next.notes ? `"${event.next.notes}"` : 'Notes cleared';
+    }
+  };
+  const getStatusIcon = (status: BookingStatus) => {
     switch (status) {
       case 'approved':
         return <CheckCircle className="w-5 h-5 text-green-600" />;
+      case 'rescheduled':
+        return <CalendarClock className="w-5 h-5 text-indigo-600" />;
+      case 'checked_in':
+        return <LogIn className="w-5 h-5 text-blue-600" />;
+      case 'completed':
+        return <CheckCheck className="w-5 h-5 text-teal-600" />;
+      case 'no_show':
+        return <UserX className="w-5 h-5 text-orange-600" />;
       case 'denied':
         return <XCircle className="w-5 h-5 text-red-600" />;
+      case 'cancelled':
+        return <Ban className="w-5 h-5 text-gray-500" />;
       default:
         return <AlertCircle className="w-5 h-5 text-yellow-600" />;
     }
   };
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: BookingStatus) => {
     const baseClasses = "px-3 py-1 rounded-full text-sm font-medium";
     switch (status) {
       case 'approved':
         return `${baseClasses} bg-green-100 text-green-800`;
+      case 'rescheduled':
+        return `${baseClasses} bg-indigo-100 text-indigo-800`;
+      case 'checked_in':
+        return `${baseClasses} bg-blue-100 text-blue-800`;
+      case 'completed':
+        return `${baseClasses} bg-teal-100 text-teal-800`;
+      case 'no_show':
+        return `${baseClasses} bg-orange-100 text-orange-800`;
       case 'denied':
         return `${baseClasses} bg-red-100 text-red-800`;
+      case 'cancelled':
+        return `${baseClasses} bg-gray-100 text-gray-700`;
       default:
         return `${baseClasses} bg-yellow-100 text-yellow-800`;
     }
   };
 
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+    const date = new Date(`${dateString}T00:00:00`);
     return date.toLocaleDateString('en-US', { 
       weekday: 'short', 
       month: 'short', 
@@ -54,6 +142,14 @@ const BookingsList: React.FC<BookingsListProps> = ({
     return `${hour12}:${minutes} ${ampm}`;
   };
 
+  const getAvailableActions = (booking: Booking) =>
+    STATUS_ACTIONS.filter(action =>
+      canTransition(booking.status, action.status) && !getTransitionTimingError(booking, action.status)
+    );
+
+  const canReschedule = (booking: Booking) =>
+    onReschedule !== undefined && isChangeableBooking(booking) && new Date(booking.startsAt) > new Date();
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -105,19 +201,31 @@ const BookingsList: React.FC<BookingsListProps> = ({
                 </p>
               </div>
             </div>
-            <span className={getStatusBadge(booking.status)}>
-              {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
-            </span>
+            <div className="flex items-center space-x-2">
+              <span
+                className="px-3 py-1 rounded-full text-sm font-medium text-white"
+                style={{ backgroundColor: appointmentTypeColors[booking.appointmentTypeId] ?? '#6b7280' }}
+              >
+                {booking.appointmentTypeName}
+              </span>
+              <span className={getStatusBadge(booking.status)}>
+                {BOOKING_STATUS_LABELS[booking.status]}
+              </span>
+            </div>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
             <div className="flex items-center text-sm text-gray-600">
               <Calendar className="w-4 h-4 mr-2" />
               {formatDate(booking.date)}
             </div>
             <div className="flex items-center text-sm text-gray-600">
               <Clock className="w-4 h-4 mr-2" />
-              {formatTime(booking.time)}
+              {formatTime(booking.time)} ({booking.durationMinutes} min)
+            </div>
+            <div className="flex items-center text-sm text-gray-600">
+              <UserCog className="w-4 h-4 mr-2" />
+              <span title={booking.assignment?.reason}>{booking.providerName}</span>
             </div>
           </div>
 
@@ -128,29 +236,119 @@ const BookingsList: React.FC<BookingsListProps> = ({
             </div>
           </div>
 
-          {booking.status === 'pending' && (
-            <div className="flex space-x-2">
-              <button
-                onClick={() => onUpdateStatus(booking.id, 'approved')}
-                className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors duration-200 text-sm font-medium"
-                disabled={loading}
-              >
-                Approve
-              </button>
-              <button
-                onClick={() => onUpdateStatus(booking.id, 'denied')}
-                className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors duration-200 text-sm font-medium"
-                disabled={loading}
-              >
-                Deny
-              </button>
+          {booking.decisionReason && (
+            <div className="mb-4 flex items-start text-sm text-gray-600">
+              <MessageSquareText className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              <span>
+                <span className="font-medium">Told the customer:</span> {booking.decisionReason}
+              </span>
+            </div>
+          )}
+
+          {notesDraft?.bookingId === booking.id ? (
+            <div className="mb-4 space-y-2">
+              <textarea
+                value={notesDraft.notes}
+                onChange={(e) => setNotesDraft({ bookingId: booking.id, notes: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                placeholder="Notes for the team; the customer doesn't see these"
+                rows={3}
+              />
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleSaveNotes}
+                  disabled={savingNotes}
+                  className="px-3 py-1.5 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors duration-200 text-sm font-medium disabled:opacity-50"
+                >
+                  {savingNotes ? 'Saving...' : 'Save Notes'}
+                </button>
+                <button
+                  onClick={() => setNotesDraft(null)}
+                  disabled={savingNotes}
+                  className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200 text-sm"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (booking.notes || onUpdateNotes) && (
+            <div className="mb-4 flex items-start text-sm">
+              <StickyNote className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-amber-500" />
+              {booking.notes && <span className="text-gray-700 whitespace-pre-line mr-2">{booking.notes}</span>}
+              {onUpdateNotes && (
+                <button
+                  onClick={() => setNotesDraft({ bookingId: booking.id, notes: booking.notes })}
+                  className="text-blue-600 hover:text-blue-700 flex-shrink-0"
+                >
+                  {booking.notes ? 'Edit' : 'Add notes'}
+                </button>
+              )}
+            </div>
+          )}
+
+          {(getAvailableActions(booking).length > 0 || canReschedule(booking)) && (
+            <div className="flex flex-wrap gap-2">
+              {getAvailableActions(booking).map((action) => (
+                <button
+                  key={action.status}
+                  onClick={() => onUpdateStatus(booking.id, action.status)}
+                  className={`px-4 py-2 rounded-lg transition-colors duration-200 text-sm font-medium ${action.className}`}
+                  disabled={loading}
+                >
+                  {action.label}
+                </button>
+              ))}
+              {canReschedule(booking) && (
+                <button
+                  onClick={() => onReschedule!(booking)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200 text-sm font-medium"
+                  disabled={loading}
+                >
+                  Reschedule
+                </button>
+              )}
             </div>
           )}
 
           <div className="mt-4 pt-4 border-t border-gray-100">
-            <p className="text-xs text-gray-400">
-              Booked on {new Date(booking.createdAt).toLocaleString()}
-            </p>
+            <div className="flex justify-between items-center">
+              <p className="text-xs text-gray-400">
+                Booked on {new Date(booking.createdAt).toLocaleString()}
+                {booking.cancelledAt && ` · Cancelled by the ${booking.cancelledBy ?? 'customer'} on ${new Date(booking.cancelledAt).toLocaleString()}`}
+              </p>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => toggleTimeline(booking.id)}
+                  className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+                >
+                  <History className="w-3 h-3 mr-1" />
+                  {openTimelines.includes(booking.id) ? 'Hide history' : `History (${booking.events.length})`}
+                </button>
+              </div>
+            </div>
+            {booking.assignment && (
+              <p className="text-xs text-gray-400 mt-1">
+                Assigned ({booking.assignment.strategy === 'requested'
+                  ? 'requested'
+                  : ASSIGNMENT_STRATEGY_LABELS[booking.assignment.strategy].toLowerCase()}): {booking.assignment.reason}
+              </p>
+            )}
+            {openTimelines.includes(booking.id) && (
+              <ol className="mt-3 ml-1 border-l-2 border-gray-200 space-y-3">
+                {booking.events.map((event) => (
+                  <li key={event.id} className="relative pl-4">
+                    <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-gray-400"></span>
+                    <p className="text-xs font-medium text-gray-700">
+                      {BOOKING_EVENT_LABELS[event.type]}
+                      <span className="font-normal text-gray-400">
+                        {' '}by the {event.actor} · {new Date(event.at).toLocaleString()}
+                      </span>
+                    </p>
+                    <p className="text-xs text-gray-600">{describeEvent(event)}</p>
+                  </li>
+                ))}
+              </ol>
+            )}
           </div>
         </div>
       ))}
@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { MessageSquareText, Plus, Trash2, Pencil } from 'lucide-react';
+import { appointmentService, CannedResponse, CannedResponseInput } from '../services/appointmentService';
+import { MAX_DECISION_REASON_LENGTH } from '../services/cannedResponses';
+import { useToast } from '../hooks/use-toast';
+
+const createEmptyForm = (): CannedResponseInput => ({
+  status: 'denied',
+  title: '',
+  message: ''
+});
+
+const CannedResponsesManager = () => {
+  const [cannedResponses, setCannedResponses] = useState<CannedResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CannedResponseInput>(createEmptyForm);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadCannedResponses();
+  }, []);
+
+  const loadCannedResponses = async () => {
+    try {
+      setLoading(true);
+      const response = await appointmentService.getCannedResponses();
+      if (response.success && response.data) {
+        setCannedResponses(response.data);
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to load canned responses",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load canned responses",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditingId(null);
+    setFormData(createEmptyForm());
+    setShowForm(true);
+  };
+
+  const openEditForm = (cannedResponse: CannedResponse) => {
+    setEditingId(cannedResponse.id);
+    setFormData({
+      status: cannedResponse.status,
+      title: cannedResponse.title,
+      message: cannedResponse.message
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = editingId
+        ? await appointmentService.updateCannedResponse(editingId, formData)
+        : await appointmentService.createCannedResponse(formData);
+
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: editingId ? "Canned response updated" : "Canned response created",
+        });
+        setShowForm(false);
+        setEditingId(null);
+        await loadCannedResponses();
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.details || response.error?.message || "Failed to save canned response",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (responseId: string) => {
+    try {
+      const response = await appointmentService.deleteCannedResponse(responseId);
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: "Canned response deleted",
+        });
+        await loadCannedResponses();
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to delete canned response",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, index) => (
+          <div key={index} className="animate-pulse bg-gray-100 rounded-lg p-4 h-20"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Canned Responses</h3>
+          <p className="text-sm text-gray-600">
+            Saved messages to pick from when approving or denying a booking. The customer sees the message.
+          </p>
+        </div>
+        <button
+          onClick={openCreateForm}
+          className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Response</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 space-y-4 border border-gray-200">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Title</label>
+              <input
+                type="text"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g., Fully booked"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Used when</label>
+              <select
+                value={formData.status}
+                onChange={(e) => setFormData({ ...formData, status: e.target.value as CannedResponseInput['status'] })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="approved">Approving</option>
+                <option value="denied">Denying</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Message</label>
+            <textarea
+              value={formData.message}
+              onChange={(e) => setFormData({ ...formData, message: e.target.value })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              placeholder="What the customer will read"
+              maxLength={MAX_DECISION_REASON_LENGTH}
+              rows={3}
+              required
+            />
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200"
+            >
+              {editingId ? 'Save Changes' : 'Create Response'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {cannedResponses.length === 0 ? (
+        <div className="text-center py-12">
+          <MessageSquareText className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-500">No canned responses yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {cannedResponses.map((cannedResponse) => (
+            <div key={cannedResponse.id} className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+              <div className="flex justify-between items-start">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{cannedResponse.title}</span>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        cannedResponse.status === 'approved' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                      }`}
+                    >
+                      {cannedResponse.status === 'approved' ? 'Approving' : 'Denying'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 whitespace-pre-line">{cannedResponse.message}</p>
+                </div>
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => openEditForm(cannedResponse)}
+                    className="p-2 text-blue-500 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                    title="Edit response"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(cannedResponse.id)}
+                    className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                    title="Delete response"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CannedResponsesManager;
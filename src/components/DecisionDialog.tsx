@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { appointmentService, Booking, CannedResponse, DecisionStatus } from '../services/appointmentService';
+import { MAX_DECISION_REASON_LENGTH } from '../services/cannedResponses';
+import { useToast } from '../hooks/use-toast';
+
+interface DecisionDialogProps {
+  booking: Booking;
+  status: DecisionStatus;
+  // Called with the message for the customer, empty for none
+  onConfirm: (reason: string) => void;
+  onCancel: () => void;
+  loading?: boolean;
+}
+
+const DecisionDialog: React.FC<DecisionDialogProps> = ({
+  booking,
+  status,
+  onConfirm,
+  onCancel,
+  loading = false
+}) => {
+  const [cannedResponses, setCannedResponses] = useState<CannedResponse[]>([]);
+  const [reason, setReason] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadCannedResponses();
+  }, []);
+
+  // Only the responses written for this decision
+  const loadCannedResponses = async () => {
+    try {
+      const response = await appointmentService.getCannedResponses();
+      if (response.success && response.data) {
+        setCannedResponses(response.data.filter(cannedResponse => cannedResponse.status === status));
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load canned responses",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(reason.trim());
+  };
+
+  const approving = status === 'approved';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="flex items-center space-x-3">
+            {approving
+              ? <CheckCircle className="w-6 h-6 text-green-500" />
+              : <XCircle className="w-6 h-6 text-red-500" />}
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">
+                {approving ? 'Approve' : 'Deny'} {booking.name}'s booking
+              </h2>
+              <p className="text-sm text-gray-600">
+                {booking.appointmentTypeName} on {new Date(`${booking.date}T00:00:00`).toLocaleDateString()} at {booking.time}
+              </p>
+            </div>
+          </div>
+
+          {cannedResponses.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Canned response</label>
+              <select
+                value=""
+                onChange={(e) => {
+                  const picked = cannedResponses.find(cannedResponse => cannedResponse.id === e.target.value);
+                  if (picked) setReason(picked.message);
+                }}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Pick one to fill in the message...</option>
+                {cannedResponses.map((cannedResponse) => (
+                  <option key={cannedResponse.id} value={cannedResponse.id}>{cannedResponse.title}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {approving ? 'Message for the customer (optional)' : 'Reason for the customer (optional)'}
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              placeholder={approving ? 'e.g., Please bring your documents' : "e.g., We're fully booked that day"}
+              maxLength={MAX_DECISION_REASON_LENGTH}
+              rows={4}
+            />
+            <p className="text-xs text-gray-500 mt-1">Included in the email and shown on the customer's booking page.</p>
+          </div>
+
+          <div className="flex space-x-3 justify-end">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+            >
+              Back
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className={`px-4 py-2 text-white rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                approving ? 'bg-green-500 hover:bg-green-600' : 'bg-red-500 hover:bg-red-600'
+              }`}
+            >
+              {loading ? 'Saving...' : approving ? 'Approve' : 'Deny'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default DecisionDialog;
@@ -0,0 +1,358 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Plus, Trash2, Pencil, Eye } from 'lucide-react';
+import {
+  appointmentService,
+  NotificationEvent,
+  NotificationTemplate,
+  NotificationTemplateInput
+} from '../services/appointmentService';
+import { NOTIFICATION_EVENTS, NOTIFICATION_EVENT_LABELS } from '../services/notifications';
+import {
+  MAX_TEMPLATE_BODY_LENGTH,
+  MAX_TEMPLATE_SUBJECT_LENGTH,
+  NOTIFICATION_TEMPLATE_VARIABLES,
+  renderNotificationTemplate,
+  SAMPLE_BOOKING,
+  validateNotificationTemplate
+} from '../services/notificationTemplates';
+import { useToast } from '../hooks/use-toast';
+
+// Only approvals and denials come with a message for the customer, and
+// only waitlist offers with a claim link
+const getSampleBooking = (event: NotificationEvent) => ({
+  ...SAMPLE_BOOKING,
+  decisionReason: event === 'approved' || event === 'denied' ? SAMPLE_BOOKING.decisionReason : undefined,
+  claimLink: event === 'waitlist_offer' ? SAMPLE_BOOKING.claimLink : undefined,
+  offerExpiresAt: event === 'waitlist_offer' ? SAMPLE_BOOKING.offerExpiresAt : undefined
+});
+
+const NotificationTemplatesManager = () => {
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [channels, setChannels] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<NotificationTemplate | null>(null);
+  const [formData, setFormData] = useState<NotificationTemplateInput | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadTemplates();
+    loadChannels();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      const response = await appointmentService.getNotificationTemplates();
+      if (response.success && response.data) {
+        setTemplates(response.data);
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to load notification templates",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load notification templates",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadChannels = async () => {
+    const response = await appointmentService.getNotificationChannels();
+    if (response.success && response.data) {
+      setChannels(response.data);
+    }
+  };
+
+  // A channel's own version of an event's default, starting from its text
+  const openCreateForm = () => {
+    const base = templates.find(template => template.event === 'approved' && template.channel === null);
+    setEditing(null);
+    setFormData({
+      event: 'approved',
+      channel: channels[0] ?? '',
+      subject: base?.subject ?? '',
+      body: base?.body ?? ''
+    });
+    setShowForm(true);
+  };
+
+  const openEditForm = (template: NotificationTemplate) => {
+    setEditing(template);
+    setFormData({
+      event: template.event,
+      channel: template.channel,
+      subject: template.subject,
+      body: template.body
+    });
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+    setFormData(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    try {
+      const response = editing
+        ? await appointmentService.updateNotificationTemplate(editing.id, formData)
+        : await appointmentService.createNotificationTemplate(formData);
+
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: editing ? "Template updated" : "Template created",
+        });
+        closeForm();
+        await loadTemplates();
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.details || response.error?.message || "Failed to save template",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    try {
+      const response = await appointmentService.deleteNotificationTemplate(templateId);
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: "Template deleted; the channel uses the default again",
+        });
+        await loadTemplates();
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to delete template",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading && templates.length === 0) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, index) => (
+          <div key={index} className="animate-pulse bg-gray-100 rounded-lg p-4 h-20"></div>
+        ))}
+      </div>
+    );
+  }
+
+  const formErrors = formData ? validateNotificationTemplate(formData) : [];
+  const preview = formData ? renderNotificationTemplate(formData, getSampleBooking(formData.event)) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Notification Templates</h3>
+          <p className="text-sm text-gray-600">
+            What customers receive for each booking change. Every channel uses the default unless it has its own version.
+          </p>
+        </div>
+        <button
+          onClick={openCreateForm}
+          disabled={channels.length === 0}
+          className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Channel Version</span>
+        </button>
+      </div>
+
+      {showForm && formData && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 space-y-4 border border-gray-200">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Event</label>
+              <select
+                value={formData.event}
+                onChange={(e) => setFormData({ ...formData, event: e.target.value as NotificationEvent })}
+                disabled={formData.channel === null}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+              >
+                {NOTIFICATION_EVENTS.map(event => (
+                  <option key={event} value={event}>{NOTIFICATION_EVENT_LABELS[event]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Channel</label>
+              {formData.channel === null ? (
+                <input
+                  type="text"
+                  value="All channels (default)"
+                  disabled
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-gray-100"
+                />
+              ) : (
+                <select
+                  value={formData.channel}
+                  onChange={(e) => setFormData({ ...formData, channel: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {[...new Set([...channels, formData.channel])].map(channel => (
+                    <option key={channel} value={channel}>{channel}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Subject</label>
+            <input
+              type="text"
+              value={formData.subject}
+              onChange={(e) => setFormData({ ...formData, subject: e.target.value })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              maxLength={MAX_TEMPLATE_SUBJECT_LENGTH}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Body</label>
+            <textarea
+              value={formData.body}
+              onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+              maxLength={MAX_TEMPLATE_BODY_LENGTH}
+              rows={10}
+              required
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {Object.entries(NOTIFICATION_TEMPLATE_VARIABLES).map(([name, variable]) => (
+                <span
+                  key={name}
+                  className="px-2 py-0.5 rounded bg-white border border-gray-200 text-xs text-gray-700 font-mono"
+                  title={variable.description}
+                >
+                  {`{{${name}}}`}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {formErrors.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc list-inside">
+              {formErrors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          {preview && (
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <p className="flex items-center text-xs font-medium text-gray-500 uppercase mb-2">
+                <Eye className="w-3 h-3 mr-1" />
+                Preview for {SAMPLE_BOOKING.name}
+              </p>
+              <p className="font-medium text-gray-900">{preview.subject}</p>
+              <p className="text-sm text-gray-700 whitespace-pre-line mt-2">{preview.text}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={formErrors.length > 0}
+              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {editing ? 'Save Changes' : 'Create Template'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {templates.length === 0 ? (
+        <div className="text-center py-12">
+          <FileText className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-500">No templates</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {NOTIFICATION_EVENTS.flatMap(event =>
+            templates
+              .filter(template => template.event === event)
+              .sort((a, b) => (a.channel ?? '').localeCompare(b.channel ?? ''))
+          ).map((template) => (
+            <div key={template.id} className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+              <div className="flex justify-between items-start">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{NOTIFICATION_EVENT_LABELS[template.event]}</span>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        template.channel === null ? 'bg-gray-100 text-gray-700' : 'bg-blue-100 text-blue-800'
+                      }`}
+                    >
+                      {template.channel ?? 'All channels'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">{template.subject}</p>
+                  <p className="text-xs text-gray-500">Updated {new Date(template.updatedAt).toLocaleString()}</p>
+                </div>
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => openEditForm(template)}
+                    className="p-2 text-blue-500 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                    title="Edit template"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  {template.channel !== null && (
+                    <button
+                      onClick={() => handleDelete(template.id)}
+                      className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                      title="Delete template"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationTemplatesManager;
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, RefreshCw, RotateCcw, Send, AlertTriangle } from 'lucide-react';
+import { appointmentService, DeliveryStatus, OutboxMessage } from '../services/appointmentService';
+import { NOTIFICATION_EVENT_LABELS } from '../services/notifications';
+import { useToast } from '../hooks/use-toast';
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const NotificationsLog = () => {
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadNotifications();
+  }, []);
+
+  const loadNotifications = async () => {
+    try {
+      setLoading(true);
+      const response = await appointmentService.getNotifications();
+      if (response.success && response.data) {
+        setMessages(response.data);
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to load notifications",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load notifications",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRetry = async (message: OutboxMessage) => {
+    setRetryingId(message.id);
+    try {
+      const response = await appointmentService.retryNotification(message.id);
+      if (response.success) {
+        toast({
+          title: "Queued",
+          description: `The email to ${message.to} will be sent again shortly`,
+        });
+        await loadNotifications();
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to retry notification",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  if (loading && messages.length === 0) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, index) => (
+          <div key={index} className="animate-pulse bg-gray-100 rounded-lg p-4 h-20"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Notifications</h3>
+          <p className="text-sm text-gray-600">
+            Every message sent to customers. Failed sends are retried automatically with growing delays.
+          </p>
+        </div>
+        <button
+          onClick={loadNotifications}
+          className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+        >
+          <RefreshCw className="w-4 h-4" />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {messages.length === 0 ? (
+        <div className="text-center py-12">
+          <Mail className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-500">No notifications yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {messages.map((message) => {
+            const lastAttempt = message.attempts[message.attempts.length - 1];
+            return (
+              <div key={message.id} className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+                <div className="flex justify-between items-start">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{message.subject}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[message.status]}`}>
+                        {message.status}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600">
+                      <span className="flex items-center">
+                        <Mail className="w-3 h-3 mr-1" />
+                        {message.to}
+                      </span>
+                      <span className="flex items-center">
+                        <Send className="w-3 h-3 mr-1" />
+                        {NOTIFICATION_EVENT_LABELS[message.event]} via {message.channel}
+                      </span>
+                      <span>
+                        {message.attempts.length} {message.attempts.length === 1 ? 'attempt' : 'attempts'}
+                      </span>
+                    </div>
+                    {lastAttempt?.error && (
+                      <p className="flex items-center text-sm text-red-700">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        {lastAttempt.error}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Queued {new Date(message.createdAt).toLocaleString()}
+                      {message.sentAt && ` · Sent ${new Date(message.sentAt).toLocaleString()}`}
+                      {message.status === 'pending' && message.nextAttemptAt &&
+                        ` · Next attempt ${new Date(message.nextAttemptAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  {message.status === 'failed' && (
+                    <button
+                      onClick={() => handleRetry(message)}
+                      disabled={retryingId === message.id}
+                      className="flex items-center space-x-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200 disabled:opacity-50"
+                      title="Send again"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Retry</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationsLog;
@@ -0,0 +1,357 @@
+import React, { useState, useEffect } from 'react';
+import { User, Mail, Plus, Trash2, Pencil, Clock } from 'lucide-react';
+import { appointmentService, Provider, ProviderInput, ScheduleConfig, TimeInterval } from '../services/appointmentService';
+import { WEEKDAY_NAMES } from '../services/schedule';
+import { useToast } from '../hooks/use-toast';
+
+// Monday first, matching the business hours editor
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const createEmptyForm = (priority = 1): ProviderInput => ({
+  name: '',
+  email: '',
+  weeklyHours: null,
+  color: '#8b5cf6',
+  priority
+});
+
+const ProvidersManager = () => {
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [scheduleConfig, setScheduleConfig] = useState<ScheduleConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ProviderInput>(createEmptyForm);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadProviders();
+    loadScheduleConfig();
+  }, []);
+
+  const loadScheduleConfig = async () => {
+    const response = await appointmentService.getScheduleConfig();
+    if (response.success && response.data) {
+      setScheduleConfig(response.data);
+    }
+  };
+
+  const loadProviders = async () => {
+    try {
+      setLoading(true);
+      const response = await appointmentService.getProviders();
+      if (response.success && response.data) {
+        setProviders(response.data);
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to load providers",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load providers",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditingId(null);
+    // New providers go to the back of the queue
+    setFormData(createEmptyForm(Math.max(0, ...providers.map(provider => provider.priority)) + 1));
+    setShowForm(true);
+  };
+
+  const openEditForm = (provider: Provider) => {
+    setEditingId(provider.id);
+    setFormData({
+      name: provider.name,
+      email: provider.email,
+      weeklyHours: provider.weeklyHours,
+      color: provider.color,
+      priority: provider.priority
+    });
+    setShowForm(true);
+  };
+
+  // Own hours start from a copy of the business hours
+  const handleToggleOwnHours = () => {
+    setFormData({
+      ...formData,
+      weeklyHours: formData.weeklyHours ? null : structuredClone(scheduleConfig?.weeklyHours ?? [[], [], [], [], [], [], []])
+    });
+  };
+
+  const updateDay = (weekday: number, update: (intervals: TimeInterval[]) => TimeInterval[]) => {
+    if (!formData.weeklyHours) return;
+    const weeklyHours = formData.weeklyHours.map((intervals, index) =>
+      index === weekday ? update(intervals) : intervals
+    );
+    setFormData({ ...formData, weeklyHours });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = editingId
+        ? await appointmentService.updateProvider(editingId, formData)
+        : await appointmentService.createProvider(formData);
+
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: editingId ? "Provider updated" : "Provider added",
+        });
+        setShowForm(false);
+        setEditingId(null);
+        await loadProviders();
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.details || response.error?.message || "Failed to save provider",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (providerId: string) => {
+    try {
+      const response = await appointmentService.deleteProvider(providerId);
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: "Provider removed",
+        });
+        await loadProviders();
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to remove provider",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeHours = (intervals: TimeInterval[]) =>
+    intervals.length === 0 ? 'Off' : intervals.map(({ start, end }) => `${start}-${end}`).join(', ');
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, index) => (
+          <div key={index} className="animate-pulse bg-gray-100 rounded-lg p-4 h-20"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-gray-900">Providers</h3>
+        <button
+          onClick={openCreateForm}
+          className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Provider</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 space-y-4 border border-gray-200">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g., Dr. Jane Smith"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Email (optional)</label>
+              <input
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="provider@example.com"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <label className="text-sm font-medium text-gray-700">Color</label>
+            <input
+              type="color"
+              value={formData.color}
+              onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+              className="w-10 h-10 border border-gray-300 rounded-lg cursor-pointer"
+            />
+            <label className="text-sm font-medium text-gray-700 pl-4">Priority</label>
+            <input
+              type="number"
+              min={1}
+              value={formData.priority}
+              onChange={(e) => setFormData({ ...formData, priority: Number(e.target.value) })}
+              className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              title="Lower numbers are assigned first"
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.weeklyHours === null}
+                onChange={handleToggleOwnHours}
+                className="mr-2"
+              />
+              Works the business hours
+            </label>
+
+            {formData.weeklyHours && (
+              <div className="mt-3 space-y-2">
+                {WEEKDAY_ORDER.map((weekday) => {
+                  const intervals = formData.weeklyHours![weekday];
+                  return (
+                    <div key={weekday} className="flex flex-wrap items-center gap-2">
+                      <label className="flex items-center w-32 text-sm text-gray-900">
+                        <input
+                          type="checkbox"
+                          checked={intervals.length > 0}
+                          onChange={() => updateDay(weekday, current =>
+                            current.length > 0 ? [] : [{ start: '09:00', end: '17:00' }]
+                          )}
+                          className="mr-2"
+                        />
+                        {WEEKDAY_NAMES[weekday]}
+                      </label>
+                      {intervals.map((interval, index) => (
+                        <div key={index} className="flex items-center space-x-1">
+                          <input
+                            type="time"
+                            value={interval.start}
+                            onChange={(e) => updateDay(weekday, current =>
+                              current.map((item, i) => (i === index ? { ...item, start: e.target.value } : item))
+                            )}
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                          />
+                          <span className="text-gray-500">-</span>
+                          <input
+                            type="time"
+                            value={interval.end}
+                            onChange={(e) => updateDay(weekday, current =>
+                              current.map((item, i) => (i === index ? { ...item, end: e.target.value } : item))
+                            )}
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200"
+            >
+              {editingId ? 'Save Changes' : 'Add Provider'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="space-y-3">
+        {providers.map((provider) => (
+          <div key={provider.id} className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+            <div className="flex justify-between items-start">
+              <div className="flex items-start space-x-3">
+                <span className="w-4 h-4 rounded-full mt-1 flex-shrink-0" style={{ backgroundColor: provider.color }}></span>
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <User className="w-4 h-4 text-gray-500" />
+                    <span className="font-medium text-gray-900">{provider.name}</span>
+                    <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs">Priority {provider.priority}</span>
+                  </div>
+                  {provider.email && (
+                    <p className="text-sm text-gray-600 flex items-center mt-1">
+                      <Mail className="w-3 h-3 mr-1" />
+                      {provider.email}
+                    </p>
+                  )}
+                  <div className="text-sm text-gray-600 mt-1">
+                    <Clock className="w-3 h-3 inline mr-1" />
+                    {provider.weeklyHours ? (
+                      WEEKDAY_ORDER.map((weekday) => (
+                        <span key={weekday} className="mr-3">
+                          {WEEKDAY_NAMES[weekday].slice(0, 3)}: {describeHours(provider.weeklyHours![weekday])}
+                        </span>
+                      ))
+                    ) : (
+                      <span>Business hours</span>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <button
+                  onClick={() => openEditForm(provider)}
+                  className="p-2 text-blue-500 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                  title="Edit provider"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(provider.id)}
+                  disabled={providers.length === 1}
+                  className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={providers.length === 1 ? 'At least one provider is required' : 'Remove provider'}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProvidersManager;
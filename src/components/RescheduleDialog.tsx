@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarClock, UserCog } from 'lucide-react';
+import TimeSlotGrid from './TimeSlotGrid';
+import { appointmentService, Booking, Provider, TimeSlot } from '../services/appointmentService';
+import { getLocalTimeZone, toDateKey, toTimeKey } from '../services/timezone';
+import { useToast } from '../hooks/use-toast';
+
+interface RescheduleDialogProps {
+  booking: Booking;
+  // Offered to the admin to move the booking to someone else; customers
+  // stay with their provider
+  providers?: Provider[];
+  onConfirm: (slotId: string, providerId: string) => void;
+  onCancel: () => void;
+  loading?: boolean;
+}
+
+const RescheduleDialog: React.FC<RescheduleDialogProps> = ({
+  booking,
+  providers = [],
+  onConfirm,
+  onCancel,
+  loading = false
+}) => {
+  const [providerId, setProviderId] = useState(booking.providerId);
+  const [slots, setSlots] = useState<TimeSlot[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(true);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSlots();
+  }, [providerId]);
+
+  // Only times where this booking's type fits with the chosen provider
+  const loadSlots = async () => {
+    try {
+      setSlotsLoading(true);
+      setSelectedSlot(null);
+      const response = await appointmentService.getAvailableSlots({
+        appointmentTypeId: booking.appointmentTypeId,
+        providerId
+      });
+      if (response.success && response.data) {
+        setSlots(response.data);
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to load available time slots",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load available time slots",
+        variant: "destructive",
+      });
+    } finally {
+      setSlotsLoading(false);
+    }
+  };
+
+  const formatTime = (time: string) => {
+    const [hours, minutes] = time.split(':');
+    const hour24 = parseInt(hours);
+    const hour12 = hour24 === 0 ? 12 : hour24 > 12 ? hour24 - 12 : hour24;
+    const ampm = hour24 >= 12 ? 'PM' : 'AM';
+    return `${hour12}:${minutes} ${ampm}`;
+  };
+
+  const visitorTimeZone = getLocalTimeZone();
+  const currentStart = new Date(booking.startsAt);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div className="flex items-center space-x-3">
+            <CalendarClock className="w-6 h-6 text-blue-500" />
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Reschedule {booking.appointmentTypeName}</h2>
+              <p className="text-sm text-gray-600">
+                Currently {new Date(`${toDateKey(currentStart, visitorTimeZone)}T00:00:00`).toLocaleDateString()} at{' '}
+                {formatTime(toTimeKey(currentStart, visitorTimeZone))} with {booking.providerName}
+              </p>
+            </div>
+          </div>
+
+          {providers.length > 1 && (
+            <div className="flex items-center space-x-3">
+              <UserCog className="w-5 h-5 text-gray-600" />
+              <select
+                value={providerId}
+                onChange={(e) => setProviderId(e.target.value)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {providers.map((provider) => (
+                  <option key={provider.id} value={provider.id}>{provider.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <TimeSlotGrid
+            slots={slots}
+            selectedSlot={selectedSlot}
+            onSlotSelect={setSelectedSlot}
+            loading={slotsLoading}
+          />
+
+          <div className="flex space-x-3 justify-end">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+            >
+              Keep Current Time
+            </button>
+            <button
+              type="button"
+              onClick={() => selectedSlot && onConfirm(selectedSlot, providerId)}
+              disabled={!selectedSlot || loading}
+              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Moving...' : 'Move Booking'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RescheduleDialog;
@@ -0,0 +1,364 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, Plus, Trash2, Save } from 'lucide-react';
+import { appointmentService, AssignmentStrategy, ScheduleConfig } from '../services/appointmentService';
+import { MAX_NOTICE_MINUTES, WEEKDAY_NAMES, getSlotTimesForWeekday, minutesToTime, timeToMinutes } from '../services/schedule';
+import { getLocalTimeZone } from '../services/timezone';
+import { ASSIGNMENT_STRATEGIES, ASSIGNMENT_STRATEGY_LABELS } from '../services/assignment';
+import { MAX_BUFFER_MINUTES } from '../services/appointmentTypes';
+import { MAX_BOOKING_CAP } from '../services/bookingCaps';
+import { useToast } from '../hooks/use-toast';
+
+// Monday first, matching how the week is usually read
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+type BookingCapField = 'dailyBookingCap' | 'weeklyBookingCap' | 'providerDailyBookingCap' | 'providerWeeklyBookingCap';
+
+const BOOKING_CAP_FIELDS: { field: BookingCapField; label: string }[] = [
+  { field: 'dailyBookingCap', label: 'Max Per Day' },
+  { field: 'weeklyBookingCap', label: 'Max Per Week' },
+  { field: 'providerDailyBookingCap', label: 'Max Per Provider Per Day' },
+  { field: 'providerWeeklyBookingCap', label: 'Max Per Provider Per Week' }
+];
+
+// Intl.supportedValuesOf isn't in the ES2020 lib typings
+const supportedTimeZones = (): string[] => {
+  const intl = Intl as unknown as { supportedValuesOf?: (key: string) => string[] };
+  return intl.supportedValuesOf?.('timeZone') ?? [getLocalTimeZone(), 'UTC'];
+};
+
+const ScheduleSettings = () => {
+  const [config, setConfig] = useState<ScheduleConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const loadConfig = async () => {
+    try {
+      setLoading(true);
+      const response = await appointmentService.getScheduleConfig();
+      if (response.success && response.data) {
+        setConfig(response.data);
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to load business hours",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load business hours",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDay = (weekday: number, update: (intervals: ScheduleConfig['weeklyHours'][number]) => ScheduleConfig['weeklyHours'][number]) => {
+    if (!config) return;
+    const weeklyHours = config.weeklyHours.map((intervals, index) =>
+      index === weekday ? update(intervals) : intervals
+    );
+    setConfig({ ...config, weeklyHours });
+  };
+
+  const handleToggleDay = (weekday: number) => {
+    updateDay(weekday, intervals =>
+      intervals.length > 0 ? [] : [{ start: '09:00', end: '17:00' }]
+    );
+  };
+
+  const handleAddInterval = (weekday: number) => {
+    updateDay(weekday, intervals => {
+      // Start an hour after the last interval ends, e.g. after a lunch break
+      const start = Math.min(timeToMinutes(intervals[intervals.length - 1]?.end ?? '08:00') + 60, 22 * 60);
+      return [...intervals, { start: minutesToTime(start), end: minutesToTime(start + 60) }];
+    });
+  };
+
+  const handleIntervalChange = (weekday: number, index: number, field: 'start' | 'end', value: string) => {
+    updateDay(weekday, intervals =>
+      intervals.map((interval, i) => (i === index ? { ...interval, [field]: value } : interval))
+    );
+  };
+
+  const handleRemoveInterval = (weekday: number, index: number) => {
+    updateDay(weekday, intervals => intervals.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    if (!config) return;
+
+    try {
+      setSaving(true);
+      const response = await appointmentService.updateScheduleConfig(config);
+
+      if (response.success && response.data) {
+        setConfig(response.data);
+        toast({
+          title: "Success",
+          description: "Business hours saved - new slots are live",
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.details || response.error?.message || "Failed to save business hours",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !config) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, index) => (
+          <div key={index} className="animate-pulse bg-gray-100 rounded-lg p-4 h-20"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-gray-900">Business Hours</h3>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save Hours'}</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Timezone
+          </label>
+          <select
+            value={config.timeZone}
+            onChange={(e) => setConfig({ ...config, timeZone: e.target.value })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {Array.from(new Set([config.timeZone, ...supportedTimeZones()])).map((timeZone) => (
+              <option key={timeZone} value={timeZone}>{timeZone}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Slot Length (minutes)
+          </label>
+          <select
+            value={config.slotLengthMinutes}
+            onChange={(e) => setConfig({ ...config, slotLengthMinutes: Number(e.target.value) })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {[10, 15, 20, 30, 45, 60, 90, 120].map((minutes) => (
+              <option key={minutes} value={minutes}>{minutes} minutes</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Book At Most (days ahead)
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={config.bookingHorizonDays}
+            onChange={(e) => setConfig({ ...config, bookingHorizonDays: Number(e.target.value) })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Minimum Notice (hours)
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={MAX_NOTICE_MINUTES / 60}
+            step={0.25}
+            value={config.minimumNoticeMinutes / 60}
+            onChange={(e) => setConfig({ ...config, minimumNoticeMinutes: Math.round(Number(e.target.value) * 60) })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            title="Slots starting sooner than this can't be booked"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Cancellation Cutoff (hours)
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={MAX_NOTICE_MINUTES / 60}
+            step={0.25}
+            value={config.cancellationCutoffMinutes / 60}
+            onChange={(e) => setConfig({ ...config, cancellationCutoffMinutes: Math.round(Number(e.target.value) * 60) })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            title="Customers can't cancel online within this many hours of the start"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            "Any Provider" Assignment
+          </label>
+          <select
+            value={config.assignmentStrategy}
+            onChange={(e) => setConfig({ ...config, assignmentStrategy: e.target.value as AssignmentStrategy })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {ASSIGNMENT_STRATEGIES.map((strategy) => (
+              <option key={strategy} value={strategy}>{ASSIGNMENT_STRATEGY_LABELS[strategy]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Buffer Before (minutes)
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={MAX_BUFFER_MINUTES}
+            value={config.bufferBeforeMinutes}
+            onChange={(e) => setConfig({ ...config, bufferBeforeMinutes: Number(e.target.value) })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Buffer After (minutes)
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={MAX_BUFFER_MINUTES}
+            value={config.bufferAfterMinutes}
+            onChange={(e) => setConfig({ ...config, bufferAfterMinutes: Number(e.target.value) })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            title="Kept free after every booking, e.g. for cleanup. Appointment types can override it."
+          />
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">Booking Limits</h4>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {BOOKING_CAP_FIELDS.map(({ field, label }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {label}
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_BOOKING_CAP}
+                value={config[field] ?? ''}
+                onChange={(e) => setConfig({ ...config, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="No limit"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">Weeks run Monday to Sunday. Once a limit is reached, the rest of that day or week is hidden from customers.</p>
+      </div>
+
+      <div className="space-y-3">
+        {WEEKDAY_ORDER.map((weekday) => {
+          const intervals = config.weeklyHours[weekday];
+          const isOpen = intervals.length > 0;
+          const slotCount = getSlotTimesForWeekday(config, weekday).length;
+
+          return (
+            <div key={weekday} className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+              <div className="flex justify-between items-center">
+                <label className="flex items-center font-medium text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={isOpen}
+                    onChange={() => handleToggleDay(weekday)}
+                    className="mr-3"
+                  />
+                  {WEEKDAY_NAMES[weekday]}
+                </label>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                  isOpen ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                }`}>
+                  {isOpen ? `${slotCount} slots` : 'Closed'}
+                </span>
+              </div>
+
+              {isOpen && (
+                <div className="mt-3 space-y-2">
+                  {intervals.map((interval, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <Clock className="w-4 h-4 text-blue-500" />
+                      <input
+                        type="time"
+                        value={interval.start}
+                        onChange={(e) => handleIntervalChange(weekday, index, 'start', e.target.value)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <span className="text-gray-500">to</span>
+                      <input
+                        type="time"
+                        value={interval.end}
+                        onChange={(e) => handleIntervalChange(weekday, index, 'end', e.target.value)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <button
+                        onClick={() => handleRemoveInterval(weekday, index)}
+                        className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                        title="Remove interval"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => handleAddInterval(weekday)}
+                    className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add interval</span>
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleSettings;
@@ -1,31 +1,82 @@
 
 import React from 'react';
-import { TimeSlot } from '../services/appointmentService';
-import { Calendar } from 'lucide-react';
+import { SlotUnavailableReason, TimeSlot } from '../services/appointmentService';
+import { getLocalTimeZone, getTimeZoneLabel, toDateKey, toTimeKey } from '../services/timezone';
+import { canWaitlistSlot } from '../services/waitlist';
+import { Calendar, Hourglass } from 'lucide-react';
+
+// Short label and tooltip explaining why a slot can't be booked
+const UNAVAILABLE_REASONS: Record<SlotUnavailableReason, { label: string; description: string }> = {
+  past: { label: 'Past', description: 'This time has already passed' },
+  notice: { label: 'Too soon', description: 'Too close to book - more notice is needed' },
+  closed: { label: 'Unavailable', description: 'Nobody is available at this time' },
+  booked: { label: 'Booked', description: 'This time slot is already booked' },
+  buffer: { label: 'Buffer time', description: 'Kept free between appointments' },
+  full: { label: 'Full', description: 'This session is full' },
+  tooShort: { label: 'Too short', description: 'Not enough free time for this appointment' },
+  held: { label: 'Held', description: 'Another customer is booking this time - check back in a few minutes' },
+  limit: { label: 'Fully booked', description: 'The booking limit for this period has been reached' }
+};
 
 interface TimeSlotGridProps {
   slots: TimeSlot[];
   selectedSlot: string | null;
   onSlotSelect: (slotId: string) => void;
   loading?: boolean;
+  // Zone the business operates in; its local time is shown next to the
+  // visitor's own when the two differ
+  businessTimeZone?: string;
+  // When set, taken slots - and days without a free slot - can be clicked
+  // to join the waitlist
+  onWaitlistSelect?: (slot: TimeSlot) => void;
+  // The business-local date to wait for, and the visitor's date it is
+  // shown under
+  onDayWaitlistSelect?: (date: string, shownDate: string) => void;
 }
 
 const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
   slots,
   selectedSlot,
   onSlotSelect,
-  loading = false
+  loading = false,
+  businessTimeZone,
+  onWaitlistSelect,
+  onDayWaitlistSelect
 }) => {
-  const groupedSlots = slots.reduce((acc, slot) => {
-    if (!acc[slot.date]) {
-      acc[slot.date] = [];
-    }
-    acc[slot.date].push(slot);
-    return acc;
-  }, {} as Record<string, TimeSlot[]>);
+  const visitorTimeZone = getLocalTimeZone();
+
+  // Group by the visitor's own calendar date, not the business's
+  const groupedSlots = [...slots]
+    .sort((a, b) => a.startsAt.localeCompare(b.startsAt))
+    .reduce((acc, slot) => {
+      const date = toDateKey(new Date(slot.startsAt), visitorTimeZone);
+      if (!acc[date]) {
+        acc[date] = [];
+      }
+      acc[date].push(slot);
+      return acc;
+    }, {} as Record<string, TimeSlot[]>);
+
+  // Business-local time, only when it differs from what the visitor sees
+  const getBusinessTime = (slot: TimeSlot) => {
+    if (!businessTimeZone) return null;
+    const startsAt = new Date(slot.startsAt);
+    if (toTimeKey(startsAt, visitorTimeZone) === slot.time) return null;
+    return `${formatTime(slot.time)} ${getTimeZoneLabel(businessTimeZone, startsAt)}`;
+  };
+
+  // Seats left in group sessions already booked at this time, or the seats
+  // a rule sets for new sessions. Null for ordinary one-to-one slots.
+  const getSeatsLabel = (slot: TimeSlot) => {
+    if (!slot.available) return null;
+    const seatsLeft = slot.sessions.reduce((total, session) => total + session.seatsRemaining, 0);
+    if (seatsLeft > 0) return `${seatsLeft} seat${seatsLeft === 1 ? '' : 's'} left`;
+    if (slot.capacity && slot.capacity > 1) return `${slot.capacity} seats`;
+    return null;
+  };
 
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+    const date = new Date(`${dateString}T00:00:00`);
     const today = new Date();
     const isToday = date.toDateString() === today.toDateString();
     
@@ -66,6 +117,13 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
     <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
       {Object.entries(groupedSlots).map(([date, daySlots]) => {
         const { dayName, dayNumber, month, isToday } = formatDate(date);
+        // Waiting for "any time" only makes sense once the day is taken, and
+        // waitlist days are the business's, so the visitor's day has to fall
+        // on a single one
+        const canWaitlistDay = onDayWaitlistSelect &&
+          new Set(daySlots.map(slot => slot.date)).size === 1 &&
+          daySlots.every(slot => !slot.available) &&
+          daySlots.some(slot => canWaitlistSlot(slot.unavailableReason));
         
         return (
           <div key={date} className="bg-white rounded-xl shadow-sm border border-gray-100">
@@ -79,29 +137,59 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
                   <div className="text-sm text-gray-600">{month} {dayNumber}</div>
                 </div>
               </div>
-            </div>
-            
-            <div className="p-3 space-y-2 max-h-96 overflow-y-auto">
-              {daySlots.map((slot) => (
+              {canWaitlistDay && (
                 <button
-                  key={slot.id}
-                  onClick={() => slot.available && onSlotSelect(slot.id)}
-                  disabled={!slot.available}
-                  className={`w-full p-2 text-sm rounded-lg transition-all duration-200 ${
-                    !slot.available
-                      ? 'bg-gray-100 text-gray-400 cursor-not-allowed opacity-60'
-                      : selectedSlot === slot.id
-                      ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white shadow-md transform scale-105'
-                      : 'bg-gray-50 hover:bg-blue-50 text-gray-700 hover:text-blue-700 border border-transparent hover:border-blue-200'
-                  }`}
-                  title={!slot.available ? 'This time slot is not available' : 'Click to select this time slot'}
+                  onClick={() => onDayWaitlistSelect(daySlots[0].date, date)}
+                  className="mt-2 w-full flex items-center justify-center space-x-1 text-xs text-amber-700 hover:bg-amber-50 rounded-lg py-1 transition-colors duration-200"
+                  title="Get offered the first time that frees up on this day"
                 >
-                  {formatTime(slot.time)}
-                  {!slot.available && isToday && (
-                    <span className="block text-xs text-gray-400 mt-1">Past</span>
-                  )}
+                  <Hourglass className="w-3 h-3" />
+                  <span>Waitlist for any time</span>
                 </button>
-              ))}
+              )}
+            </div>
+            
+            <div className="p-3 space-y-2 max-h-96 overflow-y-auto">
+              {daySlots.map((slot) => {
+                const seatsLabel = getSeatsLabel(slot);
+                const unavailable = slot.available ? null : UNAVAILABLE_REASONS[slot.unavailableReason ?? 'booked'];
+                const waitlistable = !slot.available && onWaitlistSelect && canWaitlistSlot(slot.unavailableReason);
+                return (
+                  <button
+                    key={slot.id}
+                    onClick={() => slot.available ? onSlotSelect(slot.id) : waitlistable && onWaitlistSelect(slot)}
+                    disabled={!slot.available && !waitlistable}
+                    className={`w-full p-2 text-sm rounded-lg transition-all duration-200 ${
+                      waitlistable
+                        ? 'bg-gray-100 text-gray-500 opacity-80 hover:opacity-100 hover:bg-amber-50 hover:text-amber-700 border border-transparent hover:border-amber-200'
+                        : !slot.available
+                        ? 'bg-gray-100 text-gray-400 cursor-not-allowed opacity-60'
+                        : selectedSlot === slot.id
+                        ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white shadow-md transform scale-105'
+                        : 'bg-gray-50 hover:bg-blue-50 text-gray-700 hover:text-blue-700 border border-transparent hover:border-blue-200'
+                    }`}
+                    title={unavailable
+                      ? waitlistable ? `${unavailable.description}. Click to join the waitlist` : unavailable.description
+                      : 'Click to select this time slot'}
+                  >
+                    {formatTime(toTimeKey(new Date(slot.startsAt), visitorTimeZone))}
+                    {slot.openedByRuleId && (
+                      <span className="block text-xs text-purple-500">Extra session</span>
+                    )}
+                    {getBusinessTime(slot) && (
+                      <span className="block text-xs opacity-75">{getBusinessTime(slot)}</span>
+                    )}
+                    {seatsLabel && (
+                      <span className={`block text-xs ${selectedSlot === slot.id ? 'opacity-90' : 'text-teal-600'}`}>{seatsLabel}</span>
+                    )}
+                    {unavailable && (
+                      <span className="block text-xs text-gray-400 mt-1">
+                        {unavailable.label}{waitlistable && ' · Join waitlist'}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
             </div>
           </div>
         );
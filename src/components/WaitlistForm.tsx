@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { User, Mail, MessageSquare, Calendar, Clock, Tag, Hourglass } from 'lucide-react';
+import { AppointmentType, TimeSlot } from '../services/appointmentService';
+import { getLocalTimeZone, toDateKey, toTimeKey } from '../services/timezone';
+
+interface WaitlistFormProps {
+  // The taken slot to wait for, or just a date for any time on that day,
+  // shown as the visitor's date it was picked under
+  slot?: TimeSlot;
+  date: string;
+  // Name of the provider the customer picked, if not "any"
+  providerName?: string;
+  appointmentTypes?: AppointmentType[];
+  onSubmit: (data: { name: string; email: string; reason: string; appointmentTypeId?: string }) => void;
+  onCancel: () => void;
+  loading?: boolean;
+}
+
+const WaitlistForm: React.FC<WaitlistFormProps> = ({
+  slot,
+  date,
+  providerName,
+  appointmentTypes = [],
+  onSubmit,
+  onCancel,
+  loading = false
+}) => {
+  const [formData, setFormData] = useState({
+    name: '',
+    email: '',
+    reason: ''
+  });
+  const [appointmentTypeId, setAppointmentTypeId] = useState<string | undefined>(appointmentTypes[0]?.id);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ ...formData, appointmentTypeId });
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(`${dateString}T00:00:00`);
+    return date.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const formatTime = (time: string) => {
+    const [hours, minutes] = time.split(':');
+    const hour24 = parseInt(hours);
+    const hour12 = hour24 === 0 ? 12 : hour24 > 12 ? hour24 - 12 : hour24;
+    const ampm = hour24 >= 12 ? 'PM' : 'AM';
+    return `${hour12}:${minutes} ${ampm}`;
+  };
+
+  // Slots are shown in the visitor's own timezone, like the booking form
+  const visitorTimeZone = getLocalTimeZone();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="text-center mb-6">
+            <div className="mx-auto w-16 h-16 bg-gradient-to-r from-amber-400 to-orange-500 rounded-full flex items-center justify-center mb-4">
+              <Hourglass className="w-8 h-8 text-white" />
+            </div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Join the Waitlist</h2>
+            <div className="bg-amber-50 rounded-lg p-3">
+              <div className="flex items-center justify-center space-x-2 text-sm text-gray-600">
+                <Calendar className="w-4 h-4" />
+                <span>{formatDate(slot ? toDateKey(new Date(slot.startsAt), visitorTimeZone) : date)}</span>
+              </div>
+              <div className="flex items-center justify-center space-x-2 text-lg font-semibold text-gray-900 mt-1">
+                <Clock className="w-4 h-4" />
+                <span>{slot ? formatTime(toTimeKey(new Date(slot.startsAt), visitorTimeZone)) : 'Any time this day'}</span>
+              </div>
+              {providerName && (
+                <div className="text-sm text-gray-600 mt-1">with {providerName}</div>
+              )}
+            </div>
+            <p className="text-sm text-gray-600 mt-3">
+              If this frees up, the first person in line gets a link to claim it for a limited time.
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {appointmentTypes.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Tag className="w-4 h-4 inline mr-2" />
+                  Appointment Type
+                </label>
+                <select
+                  value={appointmentTypeId}
+                  onChange={(e) => setAppointmentTypeId(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {appointmentTypes.map(type => (
+                    <option key={type.id} value={type.id}>{type.name} ({type.durationMinutes} min)</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <User className="w-4 h-4 inline mr-2" />
+                Full Name
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                placeholder="Enter your full name"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <Mail className="w-4 h-4 inline mr-2" />
+                Email Address
+              </label>
+              <input
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                placeholder="We'll email you if a time opens up"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <MessageSquare className="w-4 h-4 inline mr-2" />
+                Reason for Appointment
+              </label>
+              <textarea
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 resize-none"
+                placeholder="Briefly describe the reason for your appointment"
+                rows={3}
+                required
+              />
+            </div>
+
+            <div className="flex space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+                disabled={loading}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 px-4 py-3 bg-gradient-to-r from-amber-400 to-orange-500 text-white rounded-lg hover:from-amber-500 hover:to-orange-600 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Joining...' : 'Join Waitlist'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaitlistForm;
@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { Hourglass, Trash2, Mail, Calendar, Tag, UserCog, Timer } from 'lucide-react';
+import { appointmentService, Provider, WaitlistEntry, WaitlistStatus } from '../services/appointmentService';
+import { isOpenWaitlistEntry } from '../services/waitlist';
+import { useToast } from '../hooks/use-toast';
+
+const STATUS_STYLES: Record<WaitlistStatus, string> = {
+  waiting: 'bg-amber-100 text-amber-800',
+  offered: 'bg-blue-100 text-blue-800',
+  claimed: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-700',
+  removed: 'bg-gray-100 text-gray-700'
+};
+
+const WaitlistManager = () => {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Claimed, expired and removed entries are hidden unless asked for
+  const [showClosed, setShowClosed] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadWaitlist();
+    loadProviders();
+  }, []);
+
+  const loadWaitlist = async () => {
+    try {
+      setLoading(true);
+      const response = await appointmentService.getWaitlist();
+      if (response.success && response.data) {
+        setEntries(response.data);
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to load the waitlist",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load the waitlist",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadProviders = async () => {
+    const response = await appointmentService.getProviders();
+    if (response.success && response.data) {
+      setProviders(response.data);
+    }
+  };
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    try {
+      const response = await appointmentService.removeWaitlistEntry(entry.id);
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: entry.status === 'offered'
+            ? `${entry.name} removed - their offer goes to the next in line`
+            : `${entry.name} removed from the waitlist`,
+        });
+        await loadWaitlist();
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to remove waitlist entry",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatTime = (time: string) => {
+    const [hours, minutes] = time.split(':');
+    const hour24 = parseInt(hours);
+    const hour12 = hour24 === 0 ? 12 : hour24 > 12 ? hour24 - 12 : hour24;
+    const ampm = hour24 >= 12 ? 'PM' : 'AM';
+    return `${hour12}:${minutes} ${ampm}`;
+  };
+
+  if (loading && entries.length === 0) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, index) => (
+          <div key={index} className="animate-pulse bg-gray-100 rounded-lg p-4 h-20"></div>
+        ))}
+      </div>
+    );
+  }
+
+  const visibleEntries = showClosed ? entries : entries.filter(isOpenWaitlistEntry);
+  const providerNames = Object.fromEntries(providers.map(provider => [provider.id, provider.name]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Waitlist</h3>
+          <p className="text-sm text-gray-600">
+            Freed times are offered in the order customers joined, for a limited time each.
+          </p>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showClosed}
+            onChange={(e) => setShowClosed(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          <span>Show claimed, expired and removed</span>
+        </label>
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <div className="text-center py-12">
+          <Hourglass className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-500">Nobody is waiting right now</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visibleEntries.map((entry) => (
+            <div key={entry.id} className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+              <div className="flex justify-between items-start">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{entry.name}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[entry.status]}`}>
+                      {entry.status}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600">
+                    <span className="flex items-center">
+                      <Mail className="w-3 h-3 mr-1" />
+                      {entry.email}
+                    </span>
+                    <span className="flex items-center">
+                      <Calendar className="w-3 h-3 mr-1" />
+                      {new Date(`${entry.date}T00:00:00`).toLocaleDateString()}
+                      {entry.slotId ? ` at ${formatTime(entry.slotId.slice(11))}` : ', any time'}
+                    </span>
+                    <span className="flex items-center">
+                      <Tag className="w-3 h-3 mr-1" />
+                      {entry.appointmentTypeName}
+                    </span>
+                    <span className="flex items-center">
+                      <UserCog className="w-3 h-3 mr-1" />
+                      {entry.providerId ? providerNames[entry.providerId] ?? 'Removed provider' : 'Any provider'}
+                    </span>
+                  </div>
+                  {entry.status === 'offered' && entry.offer && (
+                    <p className="flex items-center text-sm text-blue-700">
+                      <Timer className="w-3 h-3 mr-1" />
+                      Offered {formatTime(entry.offer.time)} with {entry.offer.providerName} until{' '}
+                      {new Date(entry.offer.expiresAt).toLocaleString()}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500">Joined {new Date(entry.createdAt).toLocaleString()}</p>
+                </div>
+                {isOpenWaitlistEntry(entry) && (
+                  <div className="flex space-x-1">
+                    <button
+                      onClick={() => handleRemove(entry)}
+                      className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                      title="Remove from waitlist"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WaitlistManager;
@@ -1,17 +1,69 @@
 import React, { useState, useEffect } from 'react';
-import { Users, Calendar, CheckCircle, XCircle, AlertCircle, Download, Filter, Settings } from 'lucide-react';
+import {
+  Users, Calendar, CheckCircle, XCircle, AlertCircle, Ban, Download, Filter, Settings, Clock, Tag, UserCog, Scale, Hourglass,
+  CalendarClock, LogIn, CheckCheck, UserX, MessageSquareText, Mail, FileText, LucideIcon
+} from 'lucide-react';
 import BookingsList from '../components/BookingsList';
 import AvailabilityManager from '../components/AvailabilityManager';
-import { appointmentService, Booking } from '../services/appointmentService';
+import ScheduleSettings from '../components/ScheduleSettings';
+import AppointmentTypesManager from '../components/AppointmentTypesManager';
+import ProvidersManager from '../components/ProvidersManager';
+import RescheduleDialog from '../components/RescheduleDialog';
+import WaitlistManager from '../components/WaitlistManager';
+import CannedResponsesManager from '../components/CannedResponsesManager';
+import NotificationsLog from '../components/NotificationsLog';
+import NotificationTemplatesManager from '../components/NotificationTemplatesManager';
+import DecisionDialog from '../components/DecisionDialog';
+import AdminSignIn from '../components/AdminSignIn';
+import {
+  adminTokenRequired,
+  appointmentService,
+  AppointmentType,
+  Booking,
+  BookingStatus,
+  BookingStatusUpdate,
+  DecisionStatus,
+  getAdminToken,
+  Provider,
+  setAdminToken
+} from '../services/appointmentService';
+import { summarizeAssignments } from '../services/assignment';
+import { BOOKING_STATUS_LABELS, BOOKING_STATUSES } from '../services/bookings';
+import { isDecisionStatus } from '../services/cannedResponses';
 import { useToast } from '../hooks/use-toast';
 
-const AdminDashboard = () => {
+// Stat card styling per status; every status gets a card
+const STATUS_CARD_STYLES: Record<BookingStatus, { icon: LucideIcon; countClassName: string; iconClassName: string }> = {
+  pending: { icon: AlertCircle, countClassName: 'text-yellow-600', iconClassName: 'text-yellow-500' },
+  approved: { icon: CheckCircle, countClassName: 'text-green-600', iconClassName: 'text-green-500' },
+  rescheduled: { icon: CalendarClock, countClassName: 'text-indigo-600', iconClassName: 'text-indigo-500' },
+  checked_in: { icon: LogIn, countClassName: 'text-blue-600', iconClassName: 'text-blue-500' },
+  completed: { icon: CheckCheck, countClassName: 'text-teal-600', iconClassName: 'text-teal-500' },
+  no_show: { icon: UserX, countClassName: 'text-orange-600', iconClassName: 'text-orange-500' },
+  denied: { icon: XCircle, countClassName: 'text-red-600', iconClassName: 'text-red-500' },
+  cancelled: { icon: Ban, countClassName: 'text-gray-600', iconClassName: 'text-gray-400' }
+};
+
+interface AdminDashboardProps {
+  // The server stopped accepting the admin token
+  onUnauthorized: () => void;
+}
+
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ onUnauthorized }) => {
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [appointmentTypes, setAppointmentTypes] = useState<AppointmentType[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
   const [filteredBookings, setFilteredBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [updateLoading, setUpdateLoading] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [activeTab, setActiveTab] = useState<'bookings' | 'availability'>('bookings');
+  const [providerFilter, setProviderFilter] = useState<string>('all');
+  const [reschedulingBooking, setReschedulingBooking] = useState<Booking | null>(null);
+  // Approval or denial waiting for the admin's message to the customer
+  const [decision, setDecision] = useState<{ booking: Booking; status: DecisionStatus } | null>(null);
+  const [activeTab, setActiveTab] = useState<
+    'bookings' | 'waitlist' | 'availability' | 'hours' | 'types' | 'providers' | 'responses' | 'templates' | 'notifications'
+  >('bookings');
   const { toast } = useToast();
 
   useEffect(() => {
@@ -23,13 +75,25 @@ const AdminDashboard = () => {
   }, []);
 
   useEffect(() => {
-    // Filter bookings when status filter changes
-    if (statusFilter === 'all') {
-      setFilteredBookings(bookings);
-    } else {
-      setFilteredBookings(bookings.filter(booking => booking.status === statusFilter));
+    // Types and providers may have been edited on their own tabs
+    if (activeTab === 'bookings') {
+      loadAppointmentTypes();
+      loadProviders();
     }
-  }, [bookings, statusFilter]);
+  }, [activeTab]);
+
+  // Stats and the list both follow the provider filter
+  const providerBookings = providerFilter === 'all'
+    ? bookings
+    : bookings.filter(booking => booking.providerId === providerFilter);
+
+  useEffect(() => {
+    // Filter bookings when the status or provider filter changes
+    setFilteredBookings(bookings.filter(booking =>
+      (statusFilter === 'all' || booking.status === statusFilter) &&
+      (providerFilter === 'all' || booking.providerId === providerFilter)
+    ));
+  }, [bookings, statusFilter, providerFilter]);
 
   const loadBookings = async () => {
     try {
@@ -38,6 +102,8 @@ const AdminDashboard = () => {
       
       if (response.success && response.data) {
         setBookings(response.data);
+      } else if (response.error?.code === 401) {
+        onUnauthorized();
       } else {
         toast({
           title: "Error",
@@ -56,15 +122,40 @@ const AdminDashboard = () => {
     }
   };
 
-  const handleStatusUpdate = async (bookingId: string, status: 'approved' | 'denied') => {
+  const loadProviders = async () => {
+    const response = await appointmentService.getProviders();
+    if (response.success && response.data) {
+      setProviders(response.data);
+    }
+  };
+
+  const loadAppointmentTypes = async () => {
+    const response = await appointmentService.getAppointmentTypes();
+    if (response.success && response.data) {
+      setAppointmentTypes(response.data);
+    }
+  };
+
+  // Approving and denying first ask for a message to the customer
+  const handleStatusAction = (bookingId: string, status: BookingStatusUpdate) => {
+    const booking = bookings.find(b => b.id === bookingId);
+    if (booking && isDecisionStatus(status)) {
+      setDecision({ booking, status });
+    } else {
+      handleStatusUpdate(bookingId, status);
+    }
+  };
+
+  const handleStatusUpdate = async (bookingId: string, status: BookingStatusUpdate, reason?: string) => {
     try {
       setUpdateLoading(true);
-      const response = await appointmentService.updateBookingStatus(bookingId, status);
+      const response = await appointmentService.updateBookingStatus(bookingId, status, reason);
       
       if (response.success && response.data) {
+        setDecision(null);
         toast({
           title: "Status Updated",
-          description: `Booking has been ${status}${status === 'approved' ? ' - Calendar invite sent!' : ''}`,
+          description: `Booking marked ${BOOKING_STATUS_LABELS[status].toLowerCase()}${status === 'approved' ? ' - Calendar invite sent!' : ''}`,
         });
         await loadBookings(); // Refresh bookings
       } else {
@@ -85,6 +176,64 @@ const AdminDashboard = () => {
     }
   };
 
+  const handleNotesUpdate = async (bookingId: string, notes: string) => {
+    try {
+      const response = await appointmentService.updateBookingNotes(bookingId, notes);
+      if (response.success) {
+        toast({
+          title: "Notes Saved",
+          description: "The booking's notes have been updated",
+        });
+        await loadBookings();
+        return true;
+      }
+      toast({
+        title: "Update Failed",
+        description: response.error?.message || "Failed to save notes",
+        variant: "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+    return false;
+  };
+
+  const handleReschedule = async (slotId: string, providerId: string) => {
+    if (!reschedulingBooking) return;
+
+    try {
+      setUpdateLoading(true);
+      const response = await appointmentService.updateBookingSlot(reschedulingBooking.id, { slotId, providerId });
+
+      if (response.success && response.data) {
+        toast({
+          title: "Booking Rescheduled",
+          description: `Moved to ${response.data.date} at ${response.data.time}${response.data.status === 'rescheduled' ? ' - Updated invite sent!' : ''}`,
+        });
+        setReschedulingBooking(null);
+        await loadBookings();
+      } else {
+        toast({
+          title: "Reschedule Failed",
+          description: response.error?.message || "Failed to reschedule booking",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdateLoading(false);
+    }
+  };
+
   // Enhanced CSV Export with better error handling
   const handleExportCSV = async () => {
     try {
@@ -112,8 +261,8 @@ const AdminDashboard = () => {
     }
   };
 
-  const getStatusCount = (status: string) => {
-    return bookings.filter(booking => booking.status === status).length;
+  const getStatusCount = (status: BookingStatus) => {
+    return providerBookings.filter(booking => booking.status === status).length;
   };
 
   return (
@@ -142,6 +291,17 @@ const AdminDashboard = () => {
               <Calendar className="w-4 h-4 inline mr-2" />
               Bookings Management
             </button>
+            <button
+              onClick={() => setActiveTab('waitlist')}
+              className={`px-6 py-3 rounded-lg transition-all duration-200 ${
+                activeTab === 'waitlist'
+                  ? 'bg-gradient-to-r from-purple-500 to-blue-500 text-white shadow-md'
+                  : 'text-gray-600 hover:text-purple-600'
+              }`}
+            >
+              <Hourglass className="w-4 h-4 inline mr-2" />
+              Waitlist
+            </button>
             <button
               onClick={() => setActiveTab('availability')}
               className={`px-6 py-3 rounded-lg transition-all duration-200 ${
@@ -153,52 +313,103 @@ const AdminDashboard = () => {
               <Settings className="w-4 h-4 inline mr-2" />
               Availability Settings
             </button>
+            <button
+              onClick={() => setActiveTab('hours')}
+              className={`px-6 py-3 rounded-lg transition-all duration-200 ${
+                activeTab === 'hours'
+                  ? 'bg-gradient-to-r from-purple-500 to-blue-500 text-white shadow-md'
+                  : 'text-gray-600 hover:text-purple-600'
+              }`}
+            >
+              <Clock className="w-4 h-4 inline mr-2" />
+              Business Hours
+            </button>
+            <button
+              onClick={() => setActiveTab('types')}
+              className={`px-6 py-3 rounded-lg transition-all duration-200 ${
+                activeTab === 'types'
+                  ? 'bg-gradient-to-r from-purple-500 to-blue-500 text-white shadow-md'
+                  : 'text-gray-600 hover:text-purple-600'
+              }`}
+            >
+              <Tag className="w-4 h-4 inline mr-2" />
+              Appointment Types
+            </button>
+            <button
+              onClick={() => setActiveTab('providers')}
+              className={`px-6 py-3 rounded-lg transition-all duration-200 ${
+                activeTab === 'providers'
+                  ? 'bg-gradient-to-r from-purple-500 to-blue-500 text-white shadow-md'
+                  : 'text-gray-600 hover:text-purple-600'
+              }`}
+            >
+              <UserCog className="w-4 h-4 inline mr-2" />
+              Providers
+            </button>
+            <button
+              onClick={() => setActiveTab('responses')}
+              className={`px-6 py-3 rounded-lg transition-all duration-200 ${
+                activeTab === 'responses'
+                  ? 'bg-gradient-to-r from-purple-500 to-blue-500 text-white shadow-md'
+                  : 'text-gray-600 hover:text-purple-600'
+              }`}
+            >
+              <MessageSquareText className="w-4 h-4 inline mr-2" />
+              Canned Responses
+            </button>
+            <button
+              onClick={() => setActiveTab('templates')}
+              className={`px-6 py-3 rounded-lg transition-all duration-200 ${
+                activeTab === 'templates'
+                  ? 'bg-gradient-to-r from-purple-500 to-blue-500 text-white shadow-md'
+                  : 'text-gray-600 hover:text-purple-600'
+              }`}
+            >
+              <FileText className="w-4 h-4 inline mr-2" />
+              Email Templates
+            </button>
+            <button
+              onClick={() => setActiveTab('notifications')}
+              className={`px-6 py-3 rounded-lg transition-all duration-200 ${
+                activeTab === 'notifications'
+                  ? 'bg-gradient-to-r from-purple-500 to-blue-500 text-white shadow-md'
+                  : 'text-gray-600 hover:text-purple-600'
+              }`}
+            >
+              <Mail className="w-4 h-4 inline mr-2" />
+              Notifications
+            </button>
           </div>
         </div>
 
         {activeTab === 'bookings' ? (
           <>
             {/* Stats Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-9 gap-4 mb-8">
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm font-medium text-gray-600">Total Bookings</p>
-                    <p className="text-2xl font-bold text-gray-900">{bookings.length}</p>
+                    <p className="text-2xl font-bold text-gray-900">{providerBookings.length}</p>
                   </div>
-                  <Calendar className="w-8 h-8 text-blue-500" />
+                  <Calendar className="w-6 h-6 text-blue-500" />
                 </div>
               </div>
 
-              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm font-medium text-gray-600">Pending</p>
-                    <p className="text-2xl font-bold text-yellow-600">{getStatusCount('pending')}</p>
+              {BOOKING_STATUSES.map((status) => {
+                const { icon: Icon, countClassName, iconClassName } = STATUS_CARD_STYLES[status];
+                return (
+                  <div key={status} className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-600">{BOOKING_STATUS_LABELS[status]}</p>
+                        <p className={`text-2xl font-bold ${countClassName}`}>{getStatusCount(status)}</p>
+                      </div>
+                      <Icon className={`w-6 h-6 ${iconClassName}`} />
+                    </div>
                   </div>
-                  <AlertCircle className="w-8 h-8 text-yellow-500" />
-                </div>
-              </div>
-
-              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm font-medium text-gray-600">Approved</p>
-                    <p className="text-2xl font-bold text-green-600">{getStatusCount('approved')}</p>
-                  </div>
-                  <CheckCircle className="w-8 h-8 text-green-500" />
-                </div>
-              </div>
-
-              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm font-medium text-gray-600">Denied</p>
-                    <p className="text-2xl font-bold text-red-600">{getStatusCount('denied')}</p>
-                  </div>
-                  <XCircle className="w-8 h-8 text-red-500" />
-                </div>
-              </div>
+                );
+              })}
             </div>
 
             {/* Controls */}
@@ -212,10 +423,22 @@ const AdminDashboard = () => {
                     className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
                     <option value="all">All Bookings</option>
-                    <option value="pending">Pending</option>
-                    <option value="approved">Approved</option>
-                    <option value="denied">Denied</option>
+                    {BOOKING_STATUSES.map((status) => (
+                      <option key={status} value={status}>{BOOKING_STATUS_LABELS[status]}</option>
+                    ))}
                   </select>
+                  {providers.length > 1 && (
+                    <select
+                      value={providerFilter}
+                      onChange={(e) => setProviderFilter(e.target.value)}
+                      className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="all">All Providers</option>
+                      {providers.map((provider) => (
+                        <option key={provider.id} value={provider.id}>{provider.name}</option>
+                      ))}
+                    </select>
+                  )}
                 </div>
 
                 <button
@@ -229,11 +452,35 @@ const AdminDashboard = () => {
               </div>
             </div>
 
+            {/* Assignment Fairness */}
+            {providers.length > 1 && (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-8">
+                <div className="flex items-center space-x-2 mb-4">
+                  <Scale className="w-5 h-5 text-purple-500" />
+                  <h2 className="text-lg font-semibold text-gray-900">Assignment Fairness</h2>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {summarizeAssignments(providers, bookings).map(({ provider, total, automatic, requested }) => (
+                    <div key={provider.id} className="flex items-center justify-between p-3 rounded-lg bg-gray-50">
+                      <div className="flex items-center space-x-2">
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: provider.color }}></span>
+                        <span className="font-medium text-gray-900">{provider.name}</span>
+                      </div>
+                      <div className="text-sm text-gray-600 text-right">
+                        <p><span className="font-semibold text-gray-900">{total}</span> active</p>
+                        <p>{automatic} auto-assigned, {requested} requested</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Bookings List */}
             <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-2xl font-bold text-gray-900">
-                  {statusFilter === 'all' ? 'All Bookings' : `${statusFilter.charAt(0).toUpperCase() + statusFilter.slice(1)} Bookings`}
+                  {statusFilter === 'all' ? 'All Bookings' : `${BOOKING_STATUS_LABELS[statusFilter as BookingStatus]} Bookings`}
                 </h2>
                 <span className="text-sm text-gray-500">
                   Showing {filteredBookings.length} of {bookings.length} bookings
@@ -242,15 +489,66 @@ const AdminDashboard = () => {
 
               <BookingsList
                 bookings={filteredBookings}
-                onUpdateStatus={handleStatusUpdate}
+                appointmentTypeColors={Object.fromEntries(appointmentTypes.map(type => [type.id, type.color]))}
+                onUpdateStatus={handleStatusAction}
+                onReschedule={setReschedulingBooking}
+                onUpdateNotes={handleNotesUpdate}
                 loading={loading || updateLoading}
               />
             </div>
           </>
-        ) : (
+        ) : activeTab === 'waitlist' ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <WaitlistManager />
+          </div>
+        ) : activeTab === 'availability' ? (
           <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
             <AvailabilityManager />
           </div>
+        ) : activeTab === 'hours' ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <ScheduleSettings />
+          </div>
+        ) : activeTab === 'types' ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <AppointmentTypesManager />
+          </div>
+        ) : activeTab === 'providers' ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <ProvidersManager />
+          </div>
+        ) : activeTab === 'responses' ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <CannedResponsesManager />
+          </div>
+        ) : activeTab === 'templates' ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <NotificationTemplatesManager />
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <NotificationsLog />
+          </div>
+        )}
+
+        {reschedulingBooking && (
+          <RescheduleDialog
+            booking={reschedulingBooking}
+            providers={providers}
+            onConfirm={handleReschedule}
+            onCancel={() => setReschedulingBooking(null)}
+            loading={updateLoading}
+          />
+        )}
+
+        {decision && (
+          <DecisionDialog
+            booking={decision.booking}
+            status={decision.status}
+            onConfirm={(reason) => handleStatusUpdate(decision.booking.id, decision.status, reason)}
+            onCancel={() => setDecision(null)}
+            loading={updateLoading}
+          />
         )}
 
         {/* Live Updates Indicator */}
@@ -265,4 +563,22 @@ const AdminDashboard = () => {
   );
 };
 
-export default AdminDashboard;
+// Holds the dashboard back until the HTTP backend's admin token is known
+const AdminPage = () => {
+  const [signedIn, setSignedIn] = useState(() => !adminTokenRequired || getAdminToken() !== null);
+
+  if (!signedIn) {
+    return <AdminSignIn onSignedIn={() => setSignedIn(true)} />;
+  }
+
+  return (
+    <AdminDashboard
+      onUnauthorized={() => {
+        setAdminToken(null);
+        setSignedIn(false);
+      }}
+    />
+  );
+};
+
+export default AdminPage;
@@ -1,9 +1,22 @@
 
-import React, { useState, useEffect } from 'react';
-import { Calendar, CheckCircle, AlertCircle, Clock } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Calendar, CheckCircle, AlertCircle, Clock, Users, X, Hourglass } from 'lucide-react';
 import TimeSlotGrid from '../components/TimeSlotGrid';
 import BookingForm from '../components/BookingForm';
-import { appointmentService, TimeSlot } from '../services/appointmentService';
+import WaitlistForm from '../components/WaitlistForm';
+import {
+  appointmentService,
+  AppointmentType,
+  Booking,
+  Provider,
+  SlotHold,
+  TimeSlot,
+  WaitlistEntry
+} from '../services/appointmentService';
+import { getManageBookingPath } from '../services/bookings';
+import { getWaitlistPath } from '../services/waitlist';
+import { getLocalTimeZone } from '../services/timezone';
 import { useToast } from '../hooks/use-toast';
 
 const CustomerBooking = () => {
@@ -12,8 +25,32 @@ const CustomerBooking = () => {
   const [showForm, setShowForm] = useState(false);
   const [loading, setLoading] = useState(true);
   const [bookingLoading, setBookingLoading] = useState(false);
+  const [businessTimeZone, setBusinessTimeZone] = useState<string | undefined>();
+  const [slotLengthMinutes, setSlotLengthMinutes] = useState<number | undefined>();
+  const [appointmentTypes, setAppointmentTypes] = useState<AppointmentType[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  // Empty means "any available provider"
+  const [selectedProviderId, setSelectedProviderId] = useState('');
+  // Keeps the selected slot reserved while the booking form is open
+  const [hold, setHold] = useState<SlotHold | null>(null);
+  // Bumped whenever the hold is replaced or released, so a hold that comes
+  // back after that is let go instead of kept
+  const holdRequest = useRef(0);
+  // Last booking made, shown with the link for managing it
+  const [confirmedBooking, setConfirmedBooking] = useState<Booking | null>(null);
+  // Taken slot, or day, the customer is joining the waitlist for. The date
+  // is business-local; a day also keeps the visitor's date it was shown under
+  const [waitlistTarget, setWaitlistTarget] = useState<{ date: string; shownDate?: string; slot?: TimeSlot } | null>(null);
+  const [waitlistLoading, setWaitlistLoading] = useState(false);
+  const [joinedEntry, setJoinedEntry] = useState<WaitlistEntry | null>(null);
   const { toast } = useToast();
 
+  useEffect(() => {
+    loadScheduleDetails();
+    loadAppointmentTypes();
+    loadProviders();
+  }, []);
+
   useEffect(() => {
     loadSlots();
     
@@ -23,12 +60,15 @@ const CustomerBooking = () => {
     }, 30000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [selectedProviderId, hold]);
 
   const loadSlots = async () => {
     try {
       setLoading(true);
-      const response = await appointmentService.getAvailableSlots();
+      const response = await appointmentService.getAvailableSlots({
+        providerId: selectedProviderId || undefined,
+        holdId: hold?.id
+      });
       
       if (response.success && response.data) {
         setSlots(response.data);
@@ -50,29 +90,130 @@ const CustomerBooking = () => {
     }
   };
 
-  const handleSlotSelect = (slotId: string) => {
-    setSelectedSlot(slotId);
-    setShowForm(true);
+  const loadScheduleDetails = async () => {
+    const response = await appointmentService.getScheduleConfig();
+    if (response.success && response.data) {
+      setBusinessTimeZone(response.data.timeZone);
+      setSlotLengthMinutes(response.data.slotLengthMinutes);
+    }
+  };
+
+  const loadAppointmentTypes = async () => {
+    const response = await appointmentService.getAppointmentTypes();
+    if (response.success && response.data) {
+      setAppointmentTypes(response.data);
+    }
+  };
+
+  const loadProviders = async () => {
+    const response = await appointmentService.getProviders();
+    if (response.success && response.data) {
+      setProviders(response.data);
+    }
+  };
+
+  // Holds expire on their own, so failing to release one is harmless
+  const releaseHold = () => {
+    holdRequest.current += 1;
+    if (hold) {
+      appointmentService.releaseSlotHold(hold.id);
+      setHold(null);
+    }
   };
 
-  const handleBookingSubmit = async (data: { name: string; email: string; reason: string }) => {
+  const handleProviderChange = (providerId: string) => {
+    releaseHold();
+    setSelectedProviderId(providerId);
+    setSelectedSlot(null);
+    setShowForm(false);
+  };
+
+  const handleSlotSelect = async (slotId: string) => {
+    releaseHold();
+    try {
+      // A seat in a group session already forming here, if there is one
+      const openSession = slots.find(slot => slot.id === slotId)?.sessions.find(session => session.seatsRemaining > 0);
+      const response = await appointmentService.holdSlot({
+        slotId,
+        appointmentTypeId: openSession?.appointmentTypeId,
+        providerId: selectedProviderId || undefined
+      });
+
+      if (response.success && response.data) {
+        setHold(response.data);
+        setSelectedSlot(slotId);
+        setShowForm(true);
+      } else {
+        toast({
+          title: "Slot Unavailable",
+          description: response.error?.message || "This time can't be booked right now",
+          variant: "destructive",
+        });
+        await loadSlots();
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // A hold reserves the time for one appointment type, so it is placed again
+  // whenever the form settles on a different type than the one held
+  const handleAppointmentTypeChange = async (appointmentTypeId: string) => {
+    if (!selectedSlot || hold?.appointmentTypeId === appointmentTypeId) return;
+    releaseHold();
+    const request = holdRequest.current;
+
+    const response = await appointmentService.holdSlot({
+      slotId: selectedSlot,
+      appointmentTypeId,
+      providerId: selectedProviderId || undefined
+    });
+    if (request !== holdRequest.current) {
+      if (response.data) appointmentService.releaseSlotHold(response.data.id);
+      return;
+    }
+
+    if (response.success && response.data) {
+      setHold(response.data);
+    } else {
+      toast({
+        title: "Slot Unavailable",
+        description: response.error?.message || "This time can't be held for that appointment type",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleBookingSubmit = async (data: {
+    name: string;
+    email: string;
+    reason: string;
+    appointmentTypeId?: string;
+  }) => {
     if (!selectedSlot) return;
 
     try {
       setBookingLoading(true);
       const response = await appointmentService.createBooking({
         slotId: selectedSlot,
+        providerId: selectedProviderId || undefined,
+        holdId: hold?.id,
         ...data
       });
 
       if (response.success && response.data) {
         toast({
           title: "Booking Successful!",
-          description: "Your appointment has been booked and is pending approval.",
+          description: `Your appointment with ${response.data.providerName} has been booked and is pending approval.`,
         });
         setShowForm(false);
         setSelectedSlot(null);
-        await loadSlots(); // Refresh slots
+        setHold(null); // Released by the booking; the change refreshes slots
+        setConfirmedBooking(response.data);
       } else {
         // Handle specific error codes
         let errorMessage = response.error?.message || "Failed to book appointment";
@@ -80,7 +221,13 @@ const CustomerBooking = () => {
         if (response.error?.code === 400) {
           errorMessage = response.error.message;
         } else if (response.error?.code === 409) {
-          errorMessage = "This time slot has just been booked by someone else. Please select another slot.";
+          errorMessage = `${response.error.message}. Please select another slot or a shorter appointment.`;
+        } else if (response.error?.code === 422) {
+          errorMessage = `${response.error.message}. Please choose a time within the booking window.`;
+        } else if (response.error?.code === 429) {
+          // The capped period drops out of the listing once slots reload
+          errorMessage = `${response.error.message}. Please choose one of the remaining times.`;
+          await loadSlots();
         }
         
         toast({
@@ -100,7 +247,52 @@ const CustomerBooking = () => {
     }
   };
 
+  const handleWaitlistSubmit = async (data: {
+    name: string;
+    email: string;
+    reason: string;
+    appointmentTypeId?: string;
+  }) => {
+    if (!waitlistTarget) return;
+
+    try {
+      setWaitlistLoading(true);
+      const response = await appointmentService.joinWaitlist({
+        slotId: waitlistTarget.slot?.id,
+        date: waitlistTarget.date,
+        providerId: selectedProviderId || undefined,
+        ...data
+      });
+
+      if (response.success && response.data) {
+        toast({
+          title: "You're on the Waitlist",
+          description: "We'll email you a link to claim the time if it frees up.",
+        });
+        setWaitlistTarget(null);
+        setJoinedEntry(response.data);
+      } else {
+        toast({
+          title: "Couldn't Join Waitlist",
+          description: response.error?.message || "Failed to join the waitlist",
+          variant: "destructive",
+        });
+        // The time may have freed up in the meantime
+        if (response.error?.code === 409) await loadSlots();
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setWaitlistLoading(false);
+    }
+  };
+
   const handleFormCancel = () => {
+    releaseHold();
     setShowForm(false);
     setSelectedSlot(null);
   };
@@ -132,6 +324,10 @@ const CustomerBooking = () => {
               <Clock className="w-4 h-4 mr-2 text-blue-500" />
               Today: {currentDate}
             </div>
+            <div className="flex items-center">
+              <Calendar className="w-4 h-4 mr-2 text-purple-500" />
+              Times in your timezone ({getLocalTimeZone()})
+            </div>
           </div>
         </div>
 
@@ -168,14 +364,87 @@ const CustomerBooking = () => {
           </div>
         </div>
 
+        {confirmedBooking && (
+          <div className="bg-green-50 border border-green-200 rounded-xl p-4 mb-8 flex justify-between items-start">
+            <div className="flex items-start space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
+              <div>
+                <p className="font-medium text-green-900">
+                  Your {confirmedBooking.appointmentTypeName} request has been received
+                </p>
+                <p className="text-sm text-green-800 mt-1">
+                  Keep this link to check its status or cancel:{' '}
+                  <Link to={getManageBookingPath(confirmedBooking)} className="underline font-medium">
+                    Manage your booking
+                  </Link>
+                </p>
+                <p className="text-sm text-green-800 mt-1">
+                  Once it's approved we'll email you a calendar invite, which you can also download from that page.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => setConfirmedBooking(null)}
+              className="p-1 text-green-700 hover:bg-green-100 rounded"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {joinedEntry && (
+          <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-8 flex justify-between items-start">
+            <div className="flex items-start space-x-3">
+              <Hourglass className="w-5 h-5 text-amber-600 mt-0.5" />
+              <div>
+                <p className="font-medium text-amber-900">
+                  You're on the waitlist for {joinedEntry.slotId ? 'this time' : 'any time'} on {new Date(`${joinedEntry.date}T00:00:00`).toLocaleDateString()}
+                </p>
+                <p className="text-sm text-amber-800 mt-1">
+                  Keep this link to follow your place in line:{' '}
+                  <Link to={getWaitlistPath(joinedEntry)} className="underline font-medium">
+                    Your waitlist status
+                  </Link>
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => setJoinedEntry(null)}
+              className="p-1 text-amber-700 hover:bg-amber-100 rounded"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* Time Slot Grid */}
         <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8 mb-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-6 text-center">Select Your Preferred Time</h2>
+          {providers.length > 1 && (
+            <div className="flex items-center justify-center space-x-3 mb-6">
+              <Users className="w-5 h-5 text-gray-600" />
+              <select
+                value={selectedProviderId}
+                onChange={(e) => handleProviderChange(e.target.value)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Any available provider</option>
+                {providers.map((provider) => (
+                  <option key={provider.id} value={provider.id}>{provider.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
           <TimeSlotGrid
             slots={slots}
             selectedSlot={selectedSlot}
             onSlotSelect={handleSlotSelect}
             loading={loading}
+            businessTimeZone={businessTimeZone}
+            onWaitlistSelect={(slot) => setWaitlistTarget({ date: slot.date, slot })}
+            onDayWaitlistSelect={(date, shownDate) => setWaitlistTarget({ date, shownDate })}
           />
         </div>
 
@@ -188,6 +457,7 @@ const CustomerBooking = () => {
               <p>2. Fill in your details and reason for appointment</p>
               <p>3. Submit your booking request for admin approval</p>
               <p>4. You'll receive confirmation once approved</p>
+              <p>Taken times can be clicked to join the waitlist in case they free up</p>
               <p className="font-medium">⚠️ Note: Past dates and times are automatically filtered out</p>
             </div>
           </div>
@@ -206,11 +476,31 @@ const CustomerBooking = () => {
       {showForm && selectedSlotData && (
         <BookingForm
           selectedSlot={selectedSlotData}
+          businessTimeZone={businessTimeZone}
+          providerName={providers.find(provider => provider.id === selectedProviderId)?.name}
+          slots={slots}
+          slotLengthMinutes={slotLengthMinutes}
+          appointmentTypes={appointmentTypes}
+          holdExpiresAt={hold?.expiresAt}
+          onAppointmentTypeChange={handleAppointmentTypeChange}
           onSubmit={handleBookingSubmit}
           onCancel={handleFormCancel}
           loading={bookingLoading}
         />
       )}
+
+      {/* Waitlist Form Modal */}
+      {waitlistTarget && (
+        <WaitlistForm
+          slot={waitlistTarget.slot}
+          date={waitlistTarget.shownDate ?? waitlistTarget.date}
+          providerName={providers.find(provider => provider.id === selectedProviderId)?.name}
+          appointmentTypes={appointmentTypes}
+          onSubmit={handleWaitlistSubmit}
+          onCancel={() => setWaitlistTarget(null)}
+          loading={waitlistLoading}
+        />
+      )}
     </div>
   );
 };
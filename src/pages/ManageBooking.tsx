@@ -0,0 +1,307 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import {
+  Calendar, Clock, UserCog, Tag, CheckCircle, XCircle, AlertCircle, Ban, CalendarClock, LogIn, CheckCheck, UserX, MessageSquareText
+} from 'lucide-react';
+import RescheduleDialog from '../components/RescheduleDialog';
+import AddToCalendarButton from '../components/AddToCalendarButton';
+import { appointmentService, BookingStatus, ManagedBooking } from '../services/appointmentService';
+import { getLocalTimeZone, toDateKey, toTimeKey } from '../services/timezone';
+import { useToast } from '../hooks/use-toast';
+
+const STATUS_DETAILS: Record<BookingStatus, { label: string; description: string; className: string }> = {
+  pending: {
+    label: 'Pending',
+    description: 'Your request is waiting for approval.',
+    className: 'bg-yellow-100 text-yellow-800'
+  },
+  approved: {
+    label: 'Approved',
+    description: 'Your appointment is confirmed.',
+    className: 'bg-green-100 text-green-800'
+  },
+  rescheduled: {
+    label: 'Rescheduled',
+    description: 'Your appointment has been moved and is confirmed for the new time.',
+    className: 'bg-indigo-100 text-indigo-800'
+  },
+  checked_in: {
+    label: 'Checked in',
+    description: "You're checked in. We'll be with you shortly.",
+    className: 'bg-blue-100 text-blue-800'
+  },
+  completed: {
+    label: 'Completed',
+    description: 'Thanks for visiting!',
+    className: 'bg-teal-100 text-teal-800'
+  },
+  no_show: {
+    label: 'No-show',
+    description: 'This appointment was missed. Please book a new time if you still need one.',
+    className: 'bg-orange-100 text-orange-800'
+  },
+  denied: {
+    label: 'Denied',
+    description: 'Unfortunately this request could not be accepted.',
+    className: 'bg-red-100 text-red-800'
+  },
+  cancelled: {
+    label: 'Cancelled',
+    description: 'This appointment has been cancelled.',
+    className: 'bg-gray-100 text-gray-700'
+  }
+};
+
+// Reached through the link a customer receives after booking. The token in
+// the query string is what authorizes viewing and cancelling.
+const ManageBooking = () => {
+  const { id = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [managed, setManaged] = useState<ManagedBooking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [showReschedule, setShowReschedule] = useState(false);
+  const [rescheduling, setRescheduling] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadBooking();
+  }, [id, token]);
+
+  const loadBooking = async () => {
+    try {
+      setLoading(true);
+      const response = await appointmentService.getManagedBooking(id, token);
+      if (response.success && response.data) {
+        setManaged(response.data);
+      } else if (response.error?.code === 404) {
+        setNotFound(true);
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to load your booking",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load your booking",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!window.confirm('Cancel this appointment? The time will be offered to other customers.')) return;
+
+    try {
+      setCancelling(true);
+      const response = await appointmentService.cancelBooking(id, token);
+      if (response.success) {
+        toast({
+          title: "Appointment Cancelled",
+          description: "Your appointment has been cancelled.",
+        });
+      } else {
+        toast({
+          title: "Cancellation Failed",
+          description: response.error?.message || "Failed to cancel the appointment",
+          variant: "destructive",
+        });
+      }
+      await loadBooking();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const handleReschedule = async (slotId: string) => {
+    try {
+      setRescheduling(true);
+      const response = await appointmentService.rescheduleBooking(id, token, { slotId });
+      if (response.success) {
+        toast({
+          title: "Appointment Moved",
+          description: "Your appointment has been rescheduled.",
+        });
+        setShowReschedule(false);
+      } else {
+        toast({
+          title: "Reschedule Failed",
+          description: response.error?.message || "Failed to reschedule the appointment",
+          variant: "destructive",
+        });
+      }
+      await loadBooking();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setRescheduling(false);
+    }
+  };
+
+  const getStatusIcon = (status: BookingStatus) => {
+    switch (status) {
+      case 'approved':
+        return <CheckCircle className="w-8 h-8 text-white" />;
+      case 'rescheduled':
+        return <CalendarClock className="w-8 h-8 text-white" />;
+      case 'checked_in':
+        return <LogIn className="w-8 h-8 text-white" />;
+      case 'completed':
+        return <CheckCheck className="w-8 h-8 text-white" />;
+      case 'no_show':
+        return <UserX className="w-8 h-8 text-white" />;
+      case 'denied':
+        return <XCircle className="w-8 h-8 text-white" />;
+      case 'cancelled':
+        return <Ban className="w-8 h-8 text-white" />;
+      default:
+        return <AlertCircle className="w-8 h-8 text-white" />;
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(`${dateString}T00:00:00`);
+    return date.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const formatTime = (time: string) => {
+    const [hours, minutes] = time.split(':');
+    const hour24 = parseInt(hours);
+    const hour12 = hour24 === 0 ? 12 : hour24 > 12 ? hour24 - 12 : hour24;
+    const ampm = hour24 >= 12 ? 'PM' : 'AM';
+    return `${hour12}:${minutes} ${ampm}`;
+  };
+
+  if (loading && !managed) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-lg">
+        <div className="animate-pulse bg-white rounded-2xl shadow-sm border border-gray-100 h-80"></div>
+      </div>
+    );
+  }
+
+  if (notFound || !managed) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-lg text-center">
+        <Calendar className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Booking not found</h1>
+        <p className="text-gray-600">Please check that you opened the full link from your confirmation.</p>
+      </div>
+    );
+  }
+
+  const { booking, cancellableUntil } = managed;
+  const status = STATUS_DETAILS[booking.status];
+  const visitorTimeZone = getLocalTimeZone();
+  const startsAt = new Date(booking.startsAt);
+  const endsAt = new Date(booking.endsAt);
+  const canCancel = cancellableUntil !== null && new Date() < new Date(cancellableUntil);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <div className="container mx-auto px-4 py-8 max-w-lg">
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+          <div className="text-center mb-6">
+            <div className="mx-auto w-16 h-16 bg-gradient-to-r from-blue-500 to-purple-500 rounded-full flex items-center justify-center mb-4">
+              {getStatusIcon(booking.status)}
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Your Appointment</h1>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${status.className}`}>
+              {status.label}
+            </span>
+            <p className="text-gray-600 mt-3">{status.description}</p>
+            {booking.decisionReason && (
+              <div className="mt-4 text-left bg-gray-50 border border-gray-200 rounded-lg p-3">
+                <p className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                  <MessageSquareText className="w-4 h-4 mr-2" />
+                  Message from us
+                </p>
+                <p className="text-sm text-gray-600 whitespace-pre-line">{booking.decisionReason}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-lg p-4 space-y-2 mb-6">
+            <div className="flex items-center text-sm text-gray-700">
+              <Calendar className="w-4 h-4 mr-2" />
+              {formatDate(toDateKey(startsAt, visitorTimeZone))}
+            </div>
+            <div className="flex items-center text-sm text-gray-700">
+              <Clock className="w-4 h-4 mr-2" />
+              {formatTime(toTimeKey(startsAt, visitorTimeZone))} – {formatTime(toTimeKey(endsAt, visitorTimeZone))}
+            </div>
+            <div className="flex items-center text-sm text-gray-700">
+              <Tag className="w-4 h-4 mr-2" />
+              {booking.appointmentTypeName} ({booking.durationMinutes} min)
+            </div>
+            <div className="flex items-center text-sm text-gray-700">
+              <UserCog className="w-4 h-4 mr-2" />
+              with {booking.providerName}
+            </div>
+          </div>
+
+          <AddToCalendarButton booking={booking} className="w-full mb-6" />
+
+          {canCancel ? (
+            <div className="space-y-2">
+              <button
+                onClick={() => setShowReschedule(true)}
+                disabled={cancelling || rescheduling}
+                className="w-full px-4 py-3 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Choose Another Time
+              </button>
+              <button
+                onClick={handleCancel}
+                disabled={cancelling || rescheduling}
+                className="w-full px-4 py-3 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {cancelling ? 'Cancelling...' : 'Cancel Appointment'}
+              </button>
+              <p className="text-xs text-gray-500 text-center">
+                You can reschedule or cancel until {new Date(cancellableUntil!).toLocaleString()}
+              </p>
+            </div>
+          ) : cancellableUntil !== null && (
+            <p className="text-sm text-gray-600 text-center bg-gray-50 rounded-lg p-3">
+              Online changes closed on {new Date(cancellableUntil).toLocaleString()}. Please contact us to make changes.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {showReschedule && (
+        <RescheduleDialog
+          booking={booking}
+          onConfirm={handleReschedule}
+          onCancel={() => setShowReschedule(false)}
+          loading={rescheduling}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ManageBooking;
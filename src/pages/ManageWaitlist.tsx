@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { Calendar, Clock, UserCog, Tag, CheckCircle, Hourglass, Timer, XCircle } from 'lucide-react';
+import { appointmentService, Booking, ManagedWaitlistEntry, WaitlistStatus } from '../services/appointmentService';
+import { getManageBookingPath } from '../services/bookings';
+import { getLocalTimeZone, toDateKey, toTimeKey } from '../services/timezone';
+import { useToast } from '../hooks/use-toast';
+
+const STATUS_DETAILS: Record<WaitlistStatus, { label: string; description: string; className: string }> = {
+  waiting: {
+    label: 'Waiting',
+    description: "You're on the waitlist. We'll email you if a time frees up.",
+    className: 'bg-amber-100 text-amber-800'
+  },
+  offered: {
+    label: 'Time Offered',
+    description: 'A time has freed up and is being held for you.',
+    className: 'bg-blue-100 text-blue-800'
+  },
+  claimed: {
+    label: 'Booked',
+    description: 'You claimed the offered time.',
+    className: 'bg-green-100 text-green-800'
+  },
+  expired: {
+    label: 'Offer Expired',
+    description: 'The offered time was not claimed in time and has gone to the next person.',
+    className: 'bg-gray-100 text-gray-700'
+  },
+  removed: {
+    label: 'Removed',
+    description: 'This waitlist entry has been closed.',
+    className: 'bg-gray-100 text-gray-700'
+  }
+};
+
+// Reached through the link a customer receives when joining the waitlist,
+// and again in the offer email. The token authorizes claiming the offer.
+const ManageWaitlist = () => {
+  const { id = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [managed, setManaged] = useState<ManagedWaitlistEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [claiming, setClaiming] = useState(false);
+  const [claimedBooking, setClaimedBooking] = useState<Booking | null>(null);
+  // Seconds left on the offer, counted down locally
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadEntry();
+  }, [id, token]);
+
+  const offerExpiresAt = managed?.entry.status === 'offered' ? managed.entry.offer?.expiresAt : undefined;
+  useEffect(() => {
+    if (!offerExpiresAt) return;
+    const tick = () => setSecondsLeft(
+      Math.max(0, Math.round((new Date(offerExpiresAt).getTime() - Date.now()) / 1000))
+    );
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [offerExpiresAt]);
+
+  const loadEntry = async () => {
+    try {
+      setLoading(true);
+      const response = await appointmentService.getWaitlistEntry(id, token);
+      if (response.success && response.data) {
+        setManaged(response.data);
+      } else if (response.error?.code === 404) {
+        setNotFound(true);
+      } else {
+        toast({
+          title: "Error",
+          description: response.error?.message || "Failed to load your waitlist entry",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load your waitlist entry",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClaim = async () => {
+    try {
+      setClaiming(true);
+      const response = await appointmentService.claimWaitlistOffer(id, token);
+      if (response.success && response.data) {
+        toast({
+          title: "Time Claimed!",
+          description: `Your appointment with ${response.data.providerName} has been booked and is pending approval.`,
+        });
+        setClaimedBooking(response.data);
+      } else {
+        toast({
+          title: "Claim Failed",
+          description: response.error?.message || "Failed to claim the offered time",
+          variant: "destructive",
+        });
+      }
+      await loadEntry();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(`${dateString}T00:00:00`);
+    return date.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const formatTime = (time: string) => {
+    const [hours, minutes] = time.split(':');
+    const hour24 = parseInt(hours);
+    const hour12 = hour24 === 0 ? 12 : hour24 > 12 ? hour24 - 12 : hour24;
+    const ampm = hour24 >= 12 ? 'PM' : 'AM';
+    return `${hour12}:${minutes} ${ampm}`;
+  };
+
+  if (loading && !managed) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-lg">
+        <div className="animate-pulse bg-white rounded-2xl shadow-sm border border-gray-100 h-80"></div>
+      </div>
+    );
+  }
+
+  if (notFound || !managed) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-lg text-center">
+        <Hourglass className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Waitlist entry not found</h1>
+        <p className="text-gray-600">Please check that you opened the full link from your email.</p>
+      </div>
+    );
+  }
+
+  const { entry, waitingAhead } = managed;
+  const booking = claimedBooking ?? managed.booking;
+  const status = STATUS_DETAILS[entry.status];
+  const visitorTimeZone = getLocalTimeZone();
+  const offer = entry.status === 'offered' ? entry.offer : undefined;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-white to-purple-50">
+      <div className="container mx-auto px-4 py-8 max-w-lg">
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+          <div className="text-center mb-6">
+            <div className="mx-auto w-16 h-16 bg-gradient-to-r from-amber-400 to-orange-500 rounded-full flex items-center justify-center mb-4">
+              {entry.status === 'claimed' ? (
+                <CheckCircle className="w-8 h-8 text-white" />
+              ) : entry.status === 'expired' || entry.status === 'removed' ? (
+                <XCircle className="w-8 h-8 text-white" />
+              ) : (
+                <Hourglass className="w-8 h-8 text-white" />
+              )}
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Your Waitlist Spot</h1>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${status.className}`}>
+              {status.label}
+            </span>
+            <p className="text-gray-600 mt-3">{status.description}</p>
+            {entry.status === 'waiting' && (
+              <p className="text-sm text-gray-500 mt-1">
+                {waitingAhead === 0
+                  ? `You're next in line for this ${entry.slotId ? 'time' : 'day'}.`
+                  : `${waitingAhead} ahead of you for this ${entry.slotId ? 'time' : 'day'}.`}
+              </p>
+            )}
+          </div>
+
+          <div className="bg-gradient-to-r from-amber-50 to-purple-50 rounded-lg p-4 space-y-2 mb-6">
+            <div className="flex items-center text-sm text-gray-700">
+              <Calendar className="w-4 h-4 mr-2" />
+              {formatDate(offer ? toDateKey(new Date(offer.startsAt), visitorTimeZone) : entry.date)}
+            </div>
+            <div className="flex items-center text-sm text-gray-700">
+              <Clock className="w-4 h-4 mr-2" />
+              {offer
+                ? `${formatTime(toTimeKey(new Date(offer.startsAt), visitorTimeZone))} – ${formatTime(toTimeKey(new Date(offer.endsAt), visitorTimeZone))}`
+                : entry.slotId ? `Waiting for ${formatTime(entry.slotId.slice(11))} (business time)` : 'Any time this day'}
+            </div>
+            <div className="flex items-center text-sm text-gray-700">
+              <Tag className="w-4 h-4 mr-2" />
+              {entry.appointmentTypeName}
+            </div>
+            {offer && (
+              <div className="flex items-center text-sm text-gray-700">
+                <UserCog className="w-4 h-4 mr-2" />
+                with {offer.providerName}
+              </div>
+            )}
+          </div>
+
+          {offer && (
+            <div className="space-y-2">
+              {secondsLeft !== null && secondsLeft > 0 && (
+                <div className="flex items-center justify-center space-x-2 text-sm text-blue-700">
+                  <Timer className="w-4 h-4" />
+                  <span>
+                    Held for you for {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+                  </span>
+                </div>
+              )}
+              <button
+                onClick={handleClaim}
+                disabled={claiming || secondsLeft === 0}
+                className="w-full px-4 py-3 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {claiming ? 'Booking...' : 'Book This Time'}
+              </button>
+            </div>
+          )}
+
+          {booking && (
+            <p className="text-sm text-green-800 bg-green-50 rounded-lg p-3 text-center">
+              Your {booking.appointmentTypeName} is booked.{' '}
+              <Link to={getManageBookingPath(booking)} className="underline font-medium">
+                Manage your booking
+              </Link>
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ManageWaitlist;
@@ -0,0 +1,112 @@
+// Admin-defined appointment types. A type's duration decides how many
+// consecutive slots a booking of that type reserves, and its capacity how
+// many customers can share one session.
+import { AppointmentType, AppointmentTypeInput, ScheduleConfig, SlotSession, TimeSlot } from './types';
+
+export const MAX_CAPACITY = 500;
+export const MAX_BUFFER_MINUTES = 240;
+
+export const DEFAULT_APPOINTMENT_TYPE_ID = 'type-standard';
+
+// Matches the single fixed appointment every booking used to be
+export const createDefaultAppointmentType = (durationMinutes = 30): AppointmentType => ({
+  id: DEFAULT_APPOINTMENT_TYPE_ID,
+  name: 'Standard Appointment',
+  durationMinutes,
+  description: 'A regular appointment',
+  color: '#3b82f6',
+  capacity: 1,
+  bufferBeforeMinutes: null,
+  bufferAfterMinutes: null,
+  createdAt: new Date().toISOString()
+});
+
+export const isHexColor = (value: unknown): boolean =>
+  typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value);
+
+export const isValidCapacity = (value: unknown): boolean =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_CAPACITY;
+
+export const isValidBuffer = (value: unknown): boolean =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_BUFFER_MINUTES;
+
+// Returns a list of problems with the input, empty when it is valid
+export const validateAppointmentType = (input: AppointmentTypeInput): string[] => {
+  const errors: string[] = [];
+  if (!input?.name?.trim()) {
+    errors.push('Name is required');
+  }
+  if (!Number.isInteger(input?.durationMinutes) || input.durationMinutes < 5 || input.durationMinutes > 480) {
+    errors.push('Duration must be a whole number of minutes between 5 and 480');
+  }
+  if (!isHexColor(input?.color)) {
+    errors.push('Color must be a hex value like #3b82f6');
+  }
+  if (!isValidCapacity(input?.capacity)) {
+    errors.push(`Capacity must be a whole number between 1 and ${MAX_CAPACITY}`);
+  }
+  if ([input?.bufferBeforeMinutes, input?.bufferAfterMinutes].some(buffer => buffer !== null && !isValidBuffer(buffer))) {
+    errors.push(`Buffers must be empty or a whole number of minutes between 0 and ${MAX_BUFFER_MINUTES}`);
+  }
+  return errors;
+};
+
+// Buffers around a booking of the type, falling back to the global ones
+// (also for types that have been deleted)
+export const getBufferMinutes = (
+  type: AppointmentType | undefined,
+  config: ScheduleConfig
+): { before: number; after: number } => ({
+  before: type?.bufferBeforeMinutes ?? config.bufferBeforeMinutes,
+  after: type?.bufferAfterMinutes ?? config.bufferAfterMinutes
+});
+
+// Sessions of the given type at a slot that still have seats, optionally
+// limited to some providers
+export const findOpenSessions = (
+  slot: TimeSlot,
+  appointmentTypeId: string,
+  providerIds?: string[]
+): SlotSession[] =>
+  slot.sessions.filter(session =>
+    session.appointmentTypeId === appointmentTypeId &&
+    session.seatsRemaining > 0 &&
+    (!providerIds || providerIds.includes(session.providerId))
+  );
+
+// Number of slots a booking of this duration occupies
+export const getSlotsNeeded = (durationMinutes: number, slotLengthMinutes: number): number =>
+  Math.max(1, Math.ceil(durationMinutes / slotLengthMinutes));
+
+// The `count` slots starting at `startSlotId`, provided they are all free
+// with the given provider and follow each other without a gap. Returns null
+// otherwise. Expects slots in chronological order, as the service generates them.
+export const findConsecutiveSlots = (
+  slots: TimeSlot[],
+  startSlotId: string,
+  count: number,
+  providerId: string
+): TimeSlot[] | null => {
+  const startIndex = slots.findIndex(slot => slot.id === startSlotId);
+  if (startIndex === -1) return null;
+
+  const span = slots.slice(startIndex, startIndex + count);
+  if (span.length < count) return null;
+
+  const contiguous = span.every((slot, index) =>
+    index === 0 || new Date(slot.startsAt).getTime() === new Date(span[index - 1].endsAt).getTime()
+  );
+  const free = span.every(slot => slot.available && slot.providerIds.includes(providerId));
+  if (!contiguous || !free) return null;
+
+  return span;
+};
+
+// Providers who are free for the whole span starting at `startSlotId`
+export const findProvidersForSpan = (slots: TimeSlot[], startSlotId: string, count: number): string[] => {
+  const startSlot = slots.find(slot => slot.id === startSlotId);
+  if (!startSlot) return [];
+  return startSlot.providerIds.filter(providerId =>
+    findConsecutiveSlots(slots, startSlotId, count, providerId) !== null
+  );
+};
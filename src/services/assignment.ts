@@ -0,0 +1,98 @@
+// Picks a provider when the customer books with "any available provider".
+// Every pick comes with a human-readable reason so admins can audit fairness.
+import { AssignmentStrategy, Booking, Provider, ProviderAssignment } from './types';
+import { getWeekRange } from './timezone';
+import { isActiveBooking } from './bookings';
+
+export const ASSIGNMENT_STRATEGIES: AssignmentStrategy[] = ['roundRobin', 'leastBooked', 'priority'];
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  roundRobin: 'Round robin',
+  leastBooked: 'Least booked this week',
+  priority: 'Priority order'
+};
+
+export const isAssignmentStrategy = (value: unknown): value is AssignmentStrategy =>
+  ASSIGNMENT_STRATEGIES.includes(value as AssignmentStrategy);
+
+// Lower priority numbers are preferred; ties keep list order
+export const sortByPriority = (providers: Provider[]): Provider[] =>
+  [...providers].sort((a, b) => a.priority - b.priority);
+
+interface AssignmentContext {
+  // Providers free for the whole appointment, in any order
+  candidates: Provider[];
+  // Every provider, used to continue the round-robin rotation
+  providers: Provider[];
+  bookings: Booking[];
+  // Business-local date of the appointment
+  date: string;
+}
+
+export const chooseProvider = (
+  strategy: AssignmentStrategy,
+  { candidates, providers, bookings, date }: AssignmentContext
+): { provider: Provider; assignment: ProviderAssignment } => {
+  const ordered = sortByPriority(candidates);
+  const candidateProviderIds = ordered.map(provider => provider.id);
+  const record = (provider: Provider, reason: string) => ({
+    provider,
+    assignment: { strategy, reason, candidateProviderIds, assignedAt: new Date().toISOString() }
+  });
+
+  if (ordered.length === 1) {
+    return record(ordered[0], `${ordered[0].name} was the only provider free for this time`);
+  }
+
+  if (strategy === 'roundRobin') {
+    // Continue after whoever received the most recent automatic assignment
+    const rotation = sortByPriority(providers);
+    const lastAssigned = [...bookings]
+      .filter(booking => booking.assignment && booking.assignment.strategy !== 'requested')
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+    const lastIndex = lastAssigned ? rotation.findIndex(provider => provider.id === lastAssigned.providerId) : -1;
+    const next = [...rotation.slice(lastIndex + 1), ...rotation.slice(0, lastIndex + 1)]
+      .find(provider => candidateProviderIds.includes(provider.id))!;
+    return record(
+      next,
+      lastAssigned
+        ? `Next in rotation after ${lastAssigned.providerName}`
+        : 'First in rotation'
+    );
+  }
+
+  if (strategy === 'leastBooked') {
+    const week = getWeekRange(date);
+    const counts = new Map(ordered.map(provider => [provider.id, 0]));
+    bookings
+      .filter(booking => isActiveBooking(booking) && booking.date >= week.start && booking.date <= week.end)
+      .forEach(booking => {
+        if (counts.has(booking.providerId)) {
+          counts.set(booking.providerId, counts.get(booking.providerId)! + 1);
+        }
+      });
+    // Stable sort keeps priority order between providers with equal counts
+    const [least] = [...ordered].sort((a, b) => counts.get(a.id)! - counts.get(b.id)!);
+    const summary = ordered.map(provider => `${provider.name} ${counts.get(provider.id)}`).join(', ');
+    return record(least, `Fewest bookings in the week of ${week.start} (${summary})`);
+  }
+
+  return record(ordered[0], `Highest priority free provider (priority ${ordered[0].priority})`);
+};
+
+export interface AssignmentSummary {
+  provider: Provider;
+  // Active (not denied or cancelled) bookings
+  total: number;
+  automatic: number;
+  requested: number;
+}
+
+// Per-provider tallies for the dashboard's fairness audit
+export const summarizeAssignments = (providers: Provider[], bookings: Booking[]): AssignmentSummary[] =>
+  sortByPriority(providers).map(provider => {
+    const active = bookings.filter(booking => booking.providerId === provider.id && isActiveBooking(booking));
+    const requested = active.filter(booking => booking.assignment?.strategy === 'requested').length;
+    const automatic = active.filter(booking => booking.assignment && booking.assignment.strategy !== 'requested').length;
+    return { provider, total: active.length, automatic, requested };
+  });
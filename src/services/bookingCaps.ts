@@ -0,0 +1,53 @@
+// Daily and weekly limits on how many appointments can be booked, either for
+// the whole business or for each provider. Denied and cancelled
+// bookings don't count.
+import { Booking, ScheduleConfig } from './types';
+import { getWeekRange } from './timezone';
+
+export const MAX_BOOKING_CAP = 1000;
+
+export type BookingCapPeriod = 'day' | 'week';
+
+export interface ReachedBookingCap {
+  period: BookingCapPeriod;
+  limit: number;
+  // Set when the cap applies to one provider rather than the business
+  providerId?: string;
+}
+
+export const isValidBookingCap = (value: unknown): boolean =>
+  value === null || (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_BOOKING_CAP);
+
+// The first cap already reached on the date, business-wide caps first. Pass
+// only active bookings.
+export const findReachedCap = (
+  config: ScheduleConfig,
+  bookings: Booking[],
+  date: string,
+  providerId?: string
+): ReachedBookingCap | null => {
+  const week = getWeekRange(date);
+  const countIn = (period: BookingCapPeriod, forProvider?: string) =>
+    bookings.filter(booking =>
+      (!forProvider || booking.providerId === forProvider) &&
+      (period === 'day' ? booking.date === date : booking.date >= week.start && booking.date <= week.end)
+    ).length;
+
+  const caps: Array<Omit<ReachedBookingCap, 'limit'> & { limit: number | null }> = [
+    { period: 'day', limit: config.dailyBookingCap },
+    { period: 'week', limit: config.weeklyBookingCap },
+    { period: 'day', limit: providerId ? config.providerDailyBookingCap : null, providerId },
+    { period: 'week', limit: providerId ? config.providerWeeklyBookingCap : null, providerId }
+  ];
+
+  return (caps.find(cap => cap.limit !== null && countIn(cap.period, cap.providerId) >= cap.limit) as ReachedBookingCap | undefined) ?? null;
+};
+
+// e.g. "The limit of 6 appointments per day has been reached for 2026-03-02"
+export const describeReachedCap = (cap: ReachedBookingCap, date: string, providerName?: string): string => {
+  const when = cap.period === 'day' ? date : `the week of ${getWeekRange(date).start}`;
+  const limit = `${cap.limit} appointment${cap.limit === 1 ? '' : 's'} per ${cap.period}`;
+  return cap.providerId
+    ? `${providerName ?? 'This provider'} has reached the limit of ${limit} for ${when}`
+    : `The limit of ${limit} has been reached for ${when}`;
+};
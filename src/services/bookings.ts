@@ -0,0 +1,131 @@
+// Booking lifecycle helpers shared by the service and the pages.
+import {
+  Booking,
+  BookingActor,
+  BookingEvent,
+  BookingEventType,
+  BookingEventValues,
+  BookingStatus,
+  BookingStatusUpdate
+} from './types';
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  'pending', 'approved', 'rescheduled', 'checked_in', 'completed', 'no_show', 'denied', 'cancelled'
+];
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rescheduled: 'Rescheduled',
+  checked_in: 'Checked in',
+  completed: 'Completed',
+  no_show: 'No-show',
+  denied: 'Denied',
+  cancelled: 'Cancelled'
+};
+
+// Statuses the admin can set through PATCH /bookings/:id
+export const BOOKING_STATUS_UPDATES: BookingStatusUpdate[] = [
+  'approved', 'denied', 'checked_in', 'completed', 'no_show', 'cancelled'
+];
+
+// Where each status may go next. Moving an approved booking makes it
+// "rescheduled"; a pending one stays pending. Anything not listed, such as
+// approving a cancelled booking, is rejected.
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['approved', 'denied', 'cancelled'],
+  approved: ['rescheduled', 'checked_in', 'no_show', 'cancelled'],
+  rescheduled: ['rescheduled', 'checked_in', 'no_show', 'cancelled'],
+  checked_in: ['completed'],
+  completed: [],
+  no_show: [],
+  denied: [],
+  cancelled: []
+};
+
+// How long before the start customers can be checked in
+export const CHECK_IN_OPENS_MINUTES = 60;
+
+export const canTransition = (from: BookingStatus, to: BookingStatus): boolean =>
+  BOOKING_TRANSITIONS[from].includes(to);
+
+// Transitions that are allowed but not yet (or no longer) at this time;
+// returns why, or null when the change can be made now
+export const getTransitionTimingError = (
+  booking: Pick<Booking, 'startsAt'>,
+  to: BookingStatus,
+  now: Date = new Date()
+): string | null => {
+  const startsAt = new Date(booking.startsAt).getTime();
+  if (to === 'checked_in' && now.getTime() < startsAt - CHECK_IN_OPENS_MINUTES * 60000) {
+    return `Customers can be checked in from ${CHECK_IN_OPENS_MINUTES} minutes before the start`;
+  }
+  if (to === 'no_show' && now.getTime() < startsAt) {
+    return 'A booking can only be marked as a no-show once it has started';
+  }
+  if (to === 'cancelled' && now.getTime() >= startsAt) {
+    return 'A booking can no longer be cancelled once it has started';
+  }
+  return null;
+};
+
+// Completed, no-show, denied and cancelled bookings can't change any more
+export const isFinalBooking = (booking: Booking): boolean =>
+  BOOKING_TRANSITIONS[booking.status].length === 0;
+
+// Bookings that still take up their provider's time
+export const isActiveBooking = (booking: Booking): boolean =>
+  booking.status !== 'denied' && booking.status !== 'cancelled';
+
+// Upcoming bookings that can still be moved or cancelled
+export const isChangeableBooking = (booking: Booking): boolean =>
+  canTransition(booking.status, 'cancelled');
+
+export const BOOKING_EVENT_LABELS: Record<BookingEventType, string> = {
+  created: 'Booked',
+  status_changed: 'Status changed',
+  rescheduled: 'Moved',
+  notes_updated: 'Notes edited'
+};
+
+export const createBookingEvent = (
+  type: BookingEventType,
+  actor: BookingActor,
+  previous: BookingEventValues | null,
+  next: BookingEventValues,
+  at: string = new Date().toISOString()
+): BookingEvent => ({
+  id: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  type,
+  actor,
+  at,
+  previous,
+  next
+});
+
+// The booking's place in the schedule, as recorded by created and
+// rescheduled events
+export const getBookingPlacement = (
+  booking: Pick<Booking, 'slotId' | 'startsAt' | 'providerId' | 'providerName'>
+): BookingEventValues => ({
+  slotId: booking.slotId,
+  startsAt: booking.startsAt,
+  providerId: booking.providerId,
+  providerName: booking.providerName
+});
+
+// A single plain address (addr-spec) such as jane@example.com. Rejects
+// display names, angle brackets, whitespace and control characters, so the
+// address is safe to write into email headers, SMTP commands and invites.
+export const isValidEmail = (email: string): boolean =>
+  typeof email === 'string' &&
+  email.length <= 254 &&
+  /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*@[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)*$/.test(email);
+
+// Random hex string for the customer's management link
+export const generateManageToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Page where the customer can see and cancel their booking
+export const getManageBookingPath = (booking: Pick<Booking, 'id' | 'manageToken'>): string =>
+  `/booking/${encodeURIComponent(booking.id)}/manage?token=${encodeURIComponent(booking.manageToken)}`;
@@ -0,0 +1,190 @@
+// iCalendar (RFC 5545) invites for bookings. Approved bookings get a
+// METHOD:REQUEST event; once one has been sent, cancelling the booking sends
+// a METHOD:CANCEL for the same UID. Times are written in the business's
+// timezone, with a VTIMEZONE describing its offsets.
+import { Booking, CalendarInvite, CalendarMethod } from './types';
+import { getZonedParts } from './timezone';
+
+export interface CalendarOrganizer {
+  name: string;
+  email: string;
+}
+
+export const DEFAULT_CALENDAR_ORGANIZER: CalendarOrganizer = {
+  name: 'Appointment System',
+  email: 'appointments@localhost'
+};
+
+const CRLF = '\r\n';
+
+const pad = (value: number) => Math.abs(value).toString().padStart(2, '0');
+
+// Text values escape backslashes, separators and newlines
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Parameter values can't contain quotes, and need them around : ; ,
+const quoteParam = (value: string): string => {
+  const clean = value.replace(/"/g, '');
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+};
+
+// Addresses are URI values, so everything but the "@" is percent-encoded:
+// line breaks, and "?", "#", ";" or "," that would end the address early
+const mailto = (email: string): string => {
+  const address = email.trim();
+  const at = address.lastIndexOf('@');
+  return at === -1
+    ? `mailto:${encodeURIComponent(address)}`
+    : `mailto:${encodeURIComponent(address.slice(0, at))}@${encodeURIComponent(address.slice(at + 1))}`;
+};
+
+// Lines longer than 75 octets continue on the next line after a space,
+// without splitting a UTF-8 character
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    if (octets + size > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join(`${CRLF} `);
+};
+
+const formatUtc = (instant: Date): string =>
+  `${instant.getUTCFullYear()}${pad(instant.getUTCMonth() + 1)}${pad(instant.getUTCDate())}T` +
+  `${pad(instant.getUTCHours())}${pad(instant.getUTCMinutes())}${pad(instant.getUTCSeconds())}Z`;
+
+const formatLocal = (instant: Date, timeZone: string): string => {
+  const { year, month, day, hour, minute } = getZonedParts(instant, timeZone);
+  return `${year}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}00`;
+};
+
+// Offset of the zone at an instant, in minutes east of UTC
+const getOffsetMinutes = (timestamp: number, timeZone: string): number => {
+  const { year, month, day, hour, minute } = getZonedParts(new Date(timestamp), timeZone);
+  return Math.round((Date.UTC(year, month - 1, day, hour, minute) - Math.floor(timestamp / 60000) * 60000) / 60000);
+};
+
+const formatOffset = (minutes: number): string =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.trunc(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+// VTIMEZONE for the year the event is in: the offset at the start of the
+// year, then each change during it, found by searching day by day and then
+// to the minute
+const buildTimeZone = (timeZone: string, around: Date): string[] => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const yearStart = Date.UTC(around.getUTCFullYear(), 0, 1);
+  const yearEnd = Date.UTC(around.getUTCFullYear() + 1, 0, 1);
+
+  const transitions: { at: number; from: number; to: number }[] = [];
+  let previous = getOffsetMinutes(yearStart, timeZone);
+  for (let day = yearStart + DAY; day <= yearEnd; day += DAY) {
+    const offset = getOffsetMinutes(day, timeZone);
+    if (offset === previous) continue;
+
+    let low = day - DAY;
+    let high = day;
+    while (high - low > 60000) {
+      const middle = low + Math.floor((high - low) / 120000) * 60000;
+      if (getOffsetMinutes(middle, timeZone) === previous) low = middle;
+      else high = middle;
+    }
+    transitions.push({ at: high, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const initial = getOffsetMinutes(yearStart, timeZone);
+  const standardOffset = Math.min(initial, ...transitions.map(transition => transition.to));
+  const observance = (at: number, from: number, to: number) => {
+    const kind = to === standardOffset ? 'STANDARD' : 'DAYLIGHT';
+    // An observance starts at the local time before the change
+    const local = new Date(at + from * 60000);
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${formatUtc(local).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${kind}`
+    ];
+  };
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observance(yearStart, initial, initial),
+    ...transitions.flatMap(transition => observance(transition.at, transition.from, transition.to)),
+    'END:VTIMEZONE'
+  ];
+};
+
+// REQUEST for bookings that were approved and still take place, CANCEL for
+// approved ones that were cancelled, and none for the rest
+export const getCalendarMethod = (booking: Booking): CalendarMethod | null => {
+  if (booking.status === 'pending' || booking.status === 'denied') {
+    return null;
+  }
+  if (booking.status === 'cancelled') {
+    return booking.events.some(event => event.next.status === 'approved') ? 'CANCEL' : null;
+  }
+  // Every other status is only reached through approval
+  return 'REQUEST';
+};
+
+// Each move is a new revision of the event, and so is the cancellation
+const getSequence = (booking: Booking, method: CalendarMethod): number =>
+  booking.reschedules.length + (method === 'CANCEL' ? 1 : 0);
+
+export const buildCalendarInvite = (
+  booking: Booking,
+  method: CalendarMethod,
+  timeZone: string,
+  organizer: CalendarOrganizer = DEFAULT_CALENDAR_ORGANIZER,
+  now: Date = new Date()
+): CalendarInvite => {
+  const startsAt = new Date(booking.startsAt);
+  const endsAt = new Date(booking.endsAt);
+  const summary = `${booking.appointmentTypeName} with ${booking.providerName}`;
+  const description = [`Booking ${booking.id}`, booking.reason && `Reason: ${booking.reason}`, booking.decisionReason]
+    .filter(Boolean)
+    .join('\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'PRODID:-//Appointment System//Bookings//EN',
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...buildTimeZone(timeZone, startsAt),
+    'BEGIN:VEVENT',
+    `UID:${booking.id}@appointment-system`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `SEQUENCE:${getSequence(booking, method)}`,
+    `DTSTART;TZID=${timeZone}:${formatLocal(startsAt, timeZone)}`,
+    `DTEND;TZID=${timeZone}:${formatLocal(endsAt, timeZone)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `ORGANIZER;CN=${quoteParam(organizer.name)}:${mailto(organizer.email)}`,
+    `ATTENDEE;CN=${quoteParam(booking.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE:${mailto(booking.email)}`,
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  return {
+    method,
+    filename: method === 'CANCEL' ? 'cancellation.ics' : 'invite.ics',
+    contentType: `text/calendar; charset=utf-8; method=${method}`,
+    content: lines.map(foldLine).join(CRLF) + CRLF
+  };
+};
@@ -0,0 +1,55 @@
+// Saved explanations for approving or denying a booking, so the admin
+// doesn't have to type the same message every time.
+import { CannedResponse, CannedResponseInput, DecisionStatus } from './types';
+
+export const DECISION_STATUSES: DecisionStatus[] = ['approved', 'denied'];
+
+export const MAX_DECISION_REASON_LENGTH = 1000;
+
+// A starting set for new installs and upgraded data
+export const createDefaultCannedResponses = (): CannedResponse[] => {
+  const createdAt = new Date().toISOString();
+  return [
+    {
+      id: 'canned-approved-default',
+      status: 'approved',
+      title: 'See you then',
+      message: 'Looking forward to seeing you. Please arrive a few minutes early.',
+      createdAt
+    },
+    {
+      id: 'canned-denied-unavailable',
+      status: 'denied',
+      title: 'Not available',
+      message: "Unfortunately we're not available at this time. Please pick another time that suits you.",
+      createdAt
+    },
+    {
+      id: 'canned-denied-service',
+      status: 'denied',
+      title: 'Service not offered',
+      message: "Unfortunately we can't help with this request. Please contact us if you have any questions.",
+      createdAt
+    }
+  ];
+};
+
+export const isDecisionStatus = (value: unknown): value is DecisionStatus =>
+  DECISION_STATUSES.includes(value as DecisionStatus);
+
+// Returns a list of problems with the input, empty when it is valid
+export const validateCannedResponse = (input: CannedResponseInput): string[] => {
+  const errors: string[] = [];
+  if (!isDecisionStatus(input?.status)) {
+    errors.push('Status must be "approved" or "denied"');
+  }
+  if (!input?.title?.trim()) {
+    errors.push('Title is required');
+  }
+  if (!input?.message?.trim()) {
+    errors.push('Message is required');
+  } else if (input.message.trim().length > MAX_DECISION_REASON_LENGTH) {
+    errors.push(`Message must be at most ${MAX_DECISION_REASON_LENGTH} characters`);
+  }
+  return errors;
+};
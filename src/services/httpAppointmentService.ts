@@ -0,0 +1,323 @@
+// HTTP client for the Node backend in server/index.ts. Mirrors the
+// LocalAppointmentService API so pages can use either one interchangeably.
+import {
+  ApiResponse,
+  AppointmentApi,
+  AppointmentType,
+  AppointmentTypeInput,
+  AvailabilityRule,
+  Booking,
+  BookingStatusUpdate,
+  CalendarInvite,
+  CannedResponse,
+  CannedResponseInput,
+  CreateBookingInput,
+  JoinWaitlistInput,
+  ManagedBooking,
+  ManagedWaitlistEntry,
+  NotificationTemplate,
+  NotificationTemplateInput,
+  OutboxMessage,
+  Provider,
+  ProviderInput,
+  RescheduleBookingInput,
+  ScheduleConfig,
+  SetAvailabilityInput,
+  SlotHold,
+  SlotHoldInput,
+  SlotQuery,
+  TimeSlot,
+  WaitlistEntry
+} from './types';
+
+export class HttpAppointmentService implements AppointmentApi {
+  private baseUrl: string;
+  private getAdminToken: () => string | null;
+
+  // getAdminToken supplies the token the server requires on admin routes;
+  // public routes ignore it
+  constructor(baseUrl: string, getAdminToken: () => string | null = () => null) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.getAdminToken = getAdminToken;
+  }
+
+  private headers(hasBody: boolean): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (hasBody) headers['Content-Type'] = 'application/json';
+    const token = this.getAdminToken();
+    if (token) headers.Authorization = `Bearer ${token}`;
+    return headers;
+  }
+
+  // Sends a request and unwraps the server's ApiResponse envelope.
+  // Network failures are reported the same way as server errors.
+  private async request<T>(method: string, path: string, body?: unknown): Promise<ApiResponse<T>> {
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: this.headers(body !== undefined),
+        body: body !== undefined ? JSON.stringify(body) : undefined
+      });
+
+      const text = await response.text();
+      if (!text) {
+        return response.ok
+          ? { success: true }
+          : { success: false, error: { code: response.status, message: response.statusText } };
+      }
+
+      return JSON.parse(text) as ApiResponse<T>;
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 500,
+          message: 'Unable to reach the appointment server',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+
+  // API Endpoint: GET /slots
+  getAvailableSlots(query: SlotQuery = {}): Promise<ApiResponse<TimeSlot[]>> {
+    const params = new URLSearchParams();
+    if (query.appointmentTypeId) params.set('appointmentTypeId', query.appointmentTypeId);
+    if (query.providerId) params.set('providerId', query.providerId);
+    if (query.holdId) params.set('holdId', query.holdId);
+    const search = params.toString();
+    return this.request('GET', search ? `/slots?${search}` : '/slots');
+  }
+
+  // API Endpoint: POST /bookings
+  createBooking(data: CreateBookingInput): Promise<ApiResponse<Booking>> {
+    return this.request('POST', '/bookings', data);
+  }
+
+  // API Endpoint: POST /slot-holds
+  holdSlot(data: SlotHoldInput): Promise<ApiResponse<SlotHold>> {
+    return this.request('POST', '/slot-holds', data);
+  }
+
+  // API Endpoint: DELETE /slot-holds/:id
+  releaseSlotHold(holdId: string): Promise<ApiResponse<void>> {
+    return this.request('DELETE', `/slot-holds/${encodeURIComponent(holdId)}`);
+  }
+
+  // API Endpoint: GET /bookings/:id/manage?token=
+  getManagedBooking(bookingId: string, token: string): Promise<ApiResponse<ManagedBooking>> {
+    return this.request('GET', `/bookings/${encodeURIComponent(bookingId)}/manage?token=${encodeURIComponent(token)}`);
+  }
+
+  // API Endpoint: GET /bookings/:id/invite?token=
+  getCalendarInvite(bookingId: string, token: string): Promise<ApiResponse<CalendarInvite>> {
+    return this.request('GET', `/bookings/${encodeURIComponent(bookingId)}/invite?token=${encodeURIComponent(token)}`);
+  }
+
+  // API Endpoint: POST /bookings/:id/cancel
+  cancelBooking(bookingId: string, token: string): Promise<ApiResponse<Booking>> {
+    return this.request('POST', `/bookings/${encodeURIComponent(bookingId)}/cancel`, { token });
+  }
+
+  // API Endpoint: POST /bookings/:id/reschedule
+  rescheduleBooking(bookingId: string, token: string, data: RescheduleBookingInput): Promise<ApiResponse<Booking>> {
+    return this.request('POST', `/bookings/${encodeURIComponent(bookingId)}/reschedule`, { ...data, token });
+  }
+
+  // API Endpoint: PUT /bookings/:id/slot
+  updateBookingSlot(bookingId: string, data: RescheduleBookingInput): Promise<ApiResponse<Booking>> {
+    return this.request('PUT', `/bookings/${encodeURIComponent(bookingId)}/slot`, data);
+  }
+
+  // API Endpoint: POST /waitlist
+  joinWaitlist(data: JoinWaitlistInput): Promise<ApiResponse<WaitlistEntry>> {
+    return this.request('POST', '/waitlist', data);
+  }
+
+  // API Endpoint: GET /waitlist
+  getWaitlist(): Promise<ApiResponse<WaitlistEntry[]>> {
+    return this.request('GET', '/waitlist');
+  }
+
+  // API Endpoint: DELETE /waitlist/:id
+  removeWaitlistEntry(entryId: string): Promise<ApiResponse<WaitlistEntry>> {
+    return this.request('DELETE', `/waitlist/${encodeURIComponent(entryId)}`);
+  }
+
+  // API Endpoint: GET /waitlist/:id?token=
+  getWaitlistEntry(entryId: string, token: string): Promise<ApiResponse<ManagedWaitlistEntry>> {
+    return this.request('GET', `/waitlist/${encodeURIComponent(entryId)}?token=${encodeURIComponent(token)}`);
+  }
+
+  // API Endpoint: POST /waitlist/:id/claim
+  claimWaitlistOffer(entryId: string, token: string): Promise<ApiResponse<Booking>> {
+    return this.request('POST', `/waitlist/${encodeURIComponent(entryId)}/claim`, { token });
+  }
+
+  // API Endpoint: GET /bookings
+  getAllBookings(): Promise<ApiResponse<Booking[]>> {
+    return this.request('GET', '/bookings');
+  }
+
+  // API Endpoint: PATCH /bookings/:id
+  updateBookingStatus(bookingId: string, status: BookingStatusUpdate, reason?: string): Promise<ApiResponse<Booking>> {
+    return this.request('PATCH', `/bookings/${encodeURIComponent(bookingId)}`, { status, reason });
+  }
+
+  // API Endpoint: PUT /bookings/:id/notes
+  updateBookingNotes(bookingId: string, notes: string): Promise<ApiResponse<Booking>> {
+    return this.request('PUT', `/bookings/${encodeURIComponent(bookingId)}/notes`, { notes });
+  }
+
+  // API Endpoint: GET /bookings/export.csv
+  async exportBookingsCSV(): Promise<string> {
+    try {
+      const response = await fetch(`${this.baseUrl}/bookings/export.csv`, { headers: this.headers(false) });
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`);
+      }
+      return await response.text();
+    } catch (error) {
+      console.error('Failed to export CSV:', error);
+      throw new Error('CSV export failed');
+    }
+  }
+
+  // API Endpoint: POST /availability-rules
+  setAvailability(data: SetAvailabilityInput): Promise<ApiResponse<AvailabilityRule>> {
+    return this.request('POST', '/availability-rules', data);
+  }
+
+  // API Endpoint: POST /availability-rules/conflicts
+  findRuleConflicts(data: SetAvailabilityInput): Promise<ApiResponse<AvailabilityRule[]>> {
+    return this.request('POST', '/availability-rules/conflicts', data);
+  }
+
+  // API Endpoint: GET /availability-rules
+  getAvailabilityRules(): Promise<ApiResponse<AvailabilityRule[]>> {
+    return this.request('GET', '/availability-rules');
+  }
+
+  // API Endpoint: DELETE /availability-rules/:id
+  deleteAvailabilityRule(ruleId: string): Promise<ApiResponse<void>> {
+    return this.request('DELETE', `/availability-rules/${encodeURIComponent(ruleId)}`);
+  }
+
+  // API Endpoint: POST /availability-rules/:id/exceptions
+  addRuleException(ruleId: string, date: string): Promise<ApiResponse<AvailabilityRule>> {
+    return this.request('POST', `/availability-rules/${encodeURIComponent(ruleId)}/exceptions`, { date });
+  }
+
+  // API Endpoint: DELETE /availability-rules/:id/exceptions/:date
+  removeRuleException(ruleId: string, date: string): Promise<ApiResponse<AvailabilityRule>> {
+    return this.request(
+      'DELETE',
+      `/availability-rules/${encodeURIComponent(ruleId)}/exceptions/${encodeURIComponent(date)}`
+    );
+  }
+
+  // API Endpoint: GET /appointment-types
+  getAppointmentTypes(): Promise<ApiResponse<AppointmentType[]>> {
+    return this.request('GET', '/appointment-types');
+  }
+
+  // API Endpoint: POST /appointment-types
+  createAppointmentType(data: AppointmentTypeInput): Promise<ApiResponse<AppointmentType>> {
+    return this.request('POST', '/appointment-types', data);
+  }
+
+  // API Endpoint: PUT /appointment-types/:id
+  updateAppointmentType(typeId: string, data: AppointmentTypeInput): Promise<ApiResponse<AppointmentType>> {
+    return this.request('PUT', `/appointment-types/${encodeURIComponent(typeId)}`, data);
+  }
+
+  // API Endpoint: DELETE /appointment-types/:id
+  deleteAppointmentType(typeId: string): Promise<ApiResponse<void>> {
+    return this.request('DELETE', `/appointment-types/${encodeURIComponent(typeId)}`);
+  }
+
+  // API Endpoint: GET /providers
+  getProviders(): Promise<ApiResponse<Provider[]>> {
+    return this.request('GET', '/providers');
+  }
+
+  // API Endpoint: POST /providers
+  createProvider(data: ProviderInput): Promise<ApiResponse<Provider>> {
+    return this.request('POST', '/providers', data);
+  }
+
+  // API Endpoint: PUT /providers/:id
+  updateProvider(providerId: string, data: ProviderInput): Promise<ApiResponse<Provider>> {
+    return this.request('PUT', `/providers/${encodeURIComponent(providerId)}`, data);
+  }
+
+  // API Endpoint: DELETE /providers/:id
+  deleteProvider(providerId: string): Promise<ApiResponse<void>> {
+    return this.request('DELETE', `/providers/${encodeURIComponent(providerId)}`);
+  }
+
+  // API Endpoint: GET /canned-responses
+  getCannedResponses(): Promise<ApiResponse<CannedResponse[]>> {
+    return this.request('GET', '/canned-responses');
+  }
+
+  // API Endpoint: POST /canned-responses
+  createCannedResponse(data: CannedResponseInput): Promise<ApiResponse<CannedResponse>> {
+    return this.request('POST', '/canned-responses', data);
+  }
+
+  // API Endpoint: PUT /canned-responses/:id
+  updateCannedResponse(responseId: string, data: CannedResponseInput): Promise<ApiResponse<CannedResponse>> {
+    return this.request('PUT', `/canned-responses/${encodeURIComponent(responseId)}`, data);
+  }
+
+  // API Endpoint: DELETE /canned-responses/:id
+  deleteCannedResponse(responseId: string): Promise<ApiResponse<void>> {
+    return this.request('DELETE', `/canned-responses/${encodeURIComponent(responseId)}`);
+  }
+
+  // API Endpoint: GET /notifications
+  getNotifications(): Promise<ApiResponse<OutboxMessage[]>> {
+    return this.request('GET', '/notifications');
+  }
+
+  // API Endpoint: POST /notifications/:id/retry
+  retryNotification(messageId: string): Promise<ApiResponse<OutboxMessage>> {
+    return this.request('POST', `/notifications/${encodeURIComponent(messageId)}/retry`);
+  }
+
+  // API Endpoint: GET /notification-channels
+  getNotificationChannels(): Promise<ApiResponse<string[]>> {
+    return this.request('GET', '/notification-channels');
+  }
+
+  // API Endpoint: GET /notification-templates
+  getNotificationTemplates(): Promise<ApiResponse<NotificationTemplate[]>> {
+    return this.request('GET', '/notification-templates');
+  }
+
+  // API Endpoint: POST /notification-templates
+  createNotificationTemplate(data: NotificationTemplateInput): Promise<ApiResponse<NotificationTemplate>> {
+    return this.request('POST', '/notification-templates', data);
+  }
+
+  // API Endpoint: PUT /notification-templates/:id
+  updateNotificationTemplate(templateId: string, data: NotificationTemplateInput): Promise<ApiResponse<NotificationTemplate>> {
+    return this.request('PUT', `/notification-templates/${encodeURIComponent(templateId)}`, data);
+  }
+
+  // API Endpoint: DELETE /notification-templates/:id
+  deleteNotificationTemplate(templateId: string): Promise<ApiResponse<void>> {
+    return this.request('DELETE', `/notification-templates/${encodeURIComponent(templateId)}`);
+  }
+
+  // API Endpoint: GET /schedule-config
+  getScheduleConfig(): Promise<ApiResponse<ScheduleConfig>> {
+    return this.request('GET', '/schedule-config');
+  }
+
+  // API Endpoint: PUT /schedule-config
+  updateScheduleConfig(config: ScheduleConfig): Promise<ApiResponse<ScheduleConfig>> {
+    return this.request('PUT', '/schedule-config', config);
+  }
+}
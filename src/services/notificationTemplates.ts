@@ -0,0 +1,164 @@
+// Admin-editable subject and body for each notification event, optionally
+// overridden per channel. Templates use {{variable}} placeholders, filled in
+// from the booking (or the waitlist offer) when a message is queued.
+import { Booking, NotificationEvent, NotificationTemplate, NotificationTemplateInput } from './types';
+import { NOTIFICATION_EVENTS } from './notifications';
+
+// The booking details a template can use. Waitlist offers fill them in from
+// the offered time, and add the claim link and when the offer runs out.
+export type TemplateBooking = Pick<
+  Booking,
+  'name' | 'email' | 'date' | 'time' | 'appointmentTypeName' | 'durationMinutes' | 'providerName' | 'reason' | 'decisionReason'
+> & {
+  claimLink?: string;
+  offerExpiresAt?: string;
+};
+
+export const NOTIFICATION_TEMPLATE_VARIABLES: Record<string, { description: string; value: (booking: TemplateBooking) => string }> = {
+  name: { description: "Customer's name", value: booking => booking.name },
+  email: { description: "Customer's email", value: booking => booking.email },
+  date: { description: 'Appointment date', value: booking => booking.date },
+  time: { description: 'Start time', value: booking => booking.time },
+  appointmentType: { description: 'Appointment type', value: booking => booking.appointmentTypeName },
+  duration: { description: 'Length in minutes', value: booking => String(booking.durationMinutes) },
+  provider: { description: 'Provider', value: booking => booking.providerName },
+  reason: { description: "Customer's reason for the appointment", value: booking => booking.reason },
+  decisionReason: {
+    description: 'Message given when approving or denying; empty otherwise',
+    value: booking => booking.decisionReason ?? ''
+  },
+  claimLink: { description: 'Waitlist offers: link for booking the offered time', value: booking => booking.claimLink ?? '' },
+  offerExpiresAt: {
+    description: 'Waitlist offers: until when the time is held',
+    value: booking => booking.offerExpiresAt ?? ''
+  }
+};
+
+export const MAX_TEMPLATE_SUBJECT_LENGTH = 200;
+export const MAX_TEMPLATE_BODY_LENGTH = 5000;
+
+// What the admin dashboard previews templates against
+export const SAMPLE_BOOKING: TemplateBooking = {
+  name: 'Jane Smith',
+  email: 'jane@example.com',
+  date: '2025-03-14',
+  time: '10:30',
+  appointmentTypeName: 'Consultation',
+  durationMinutes: 30,
+  providerName: 'Dr. Lee',
+  reason: 'Annual check-up',
+  decisionReason: 'Looking forward to seeing you. Please arrive a few minutes early.',
+  claimLink: 'https://example.com/waitlist/waitlist-123?token=abc',
+  offerExpiresAt: '2025-03-13 16:45'
+};
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+const DETAILS = '📅 Date: {{date}}\n🕐 Time: {{time}}\n🏷️ {{appointmentType}} ({{duration}} min) with {{provider}}';
+
+const DEFAULT_CONTENT: Record<NotificationEvent, { subject: string; message: string }> = {
+  created: {
+    subject: 'Appointment Request Received - {{date}} at {{time}}',
+    message: `We've received your appointment request:\n\n${DETAILS}\n\nWe'll let you know as soon as it has been reviewed.`
+  },
+  approved: {
+    subject: 'Appointment Confirmed - {{date}} at {{time}}',
+    message: `Your appointment has been approved:\n\n${DETAILS}\n\n{{decisionReason}}\n\nPlease save this information and arrive on time.`
+  },
+  denied: {
+    subject: 'Your appointment request could not be accepted',
+    message: "Unfortunately your request for {{date}} at {{time}} could not be accepted.\n\n{{decisionReason}}\n\nYou're welcome to book another time."
+  },
+  cancelled: {
+    subject: 'Appointment Cancelled - {{date}} at {{time}}',
+    message: `Your appointment has been cancelled:\n\n${DETAILS}\n\nYou're welcome to book another time.`
+  },
+  rescheduled: {
+    subject: 'Appointment Rescheduled - {{date}} at {{time}}',
+    message: `Your appointment has been moved to:\n\n${DETAILS}\n\nPlease save this information and arrive on time.`
+  },
+  waitlist_offer: {
+    subject: 'A time has opened up - {{date}} at {{time}}',
+    message: `A time you were waiting for is now free:\n\n${DETAILS}\n\nIt is held for you until {{offerExpiresAt}}. Book it here:\n{{claimLink}}`
+  }
+};
+
+// One default per event, matching the emails sent before templates existed
+export const createDefaultNotificationTemplates = (): NotificationTemplate[] => {
+  const updatedAt = new Date().toISOString();
+  return NOTIFICATION_EVENTS.map(event => ({
+    id: `template-${event}-default`,
+    event,
+    channel: null,
+    subject: DEFAULT_CONTENT[event].subject,
+    body: `Dear {{name}},\n\n${DEFAULT_CONTENT[event].message}\n\nBest regards,\nAppointment System`,
+    updatedAt
+  }));
+};
+
+// The template for a channel: its own override, or the event's default
+export const findNotificationTemplate = (
+  templates: NotificationTemplate[],
+  event: NotificationEvent,
+  channel: string
+): NotificationTemplate | undefined =>
+  templates.find(template => template.event === event && template.channel === channel) ??
+  templates.find(template => template.event === event && template.channel === null);
+
+// Names between {{ }} that aren't template variables
+export const findUnknownVariables = (text: string): string[] => {
+  const unknown = [...text.matchAll(PLACEHOLDER)]
+    .map(match => match[1])
+    .filter(name => !Object.prototype.hasOwnProperty.call(NOTIFICATION_TEMPLATE_VARIABLES, name));
+  return [...new Set(unknown)];
+};
+
+const hasUnclosedBraces = (text: string): boolean => /\{\{|\}\}/.test(text.replace(PLACEHOLDER, ''));
+
+// Returns a list of problems with the input, empty when it is valid
+export const validateNotificationTemplate = (input: NotificationTemplateInput): string[] => {
+  const errors: string[] = [];
+  if (!NOTIFICATION_EVENTS.includes(input?.event)) {
+    errors.push(`Event must be one of ${NOTIFICATION_EVENTS.join(', ')}`);
+  }
+  if (input?.channel !== null && (typeof input?.channel !== 'string' || !input.channel.trim())) {
+    errors.push('Channel must be a channel name, or null for every channel');
+  }
+
+  const fields = [
+    { label: 'Subject', text: input?.subject, maxLength: MAX_TEMPLATE_SUBJECT_LENGTH },
+    { label: 'Body', text: input?.body, maxLength: MAX_TEMPLATE_BODY_LENGTH }
+  ];
+  fields.forEach(({ label, text, maxLength }) => {
+    if (typeof text !== 'string' || !text.trim()) {
+      errors.push(`${label} is required`);
+      return;
+    }
+    if (text.trim().length > maxLength) {
+      errors.push(`${label} must be at most ${maxLength} characters`);
+    }
+    const unknown = findUnknownVariables(text);
+    if (unknown.length > 0) {
+      errors.push(`${label} uses unknown ${unknown.length === 1 ? 'variable' : 'variables'} ${unknown.map(name => `{{${name}}}`).join(', ')}`);
+    }
+    if (hasUnclosedBraces(text)) {
+      errors.push(`${label} has a {{ or }} without its pair`);
+    }
+  });
+  return errors;
+};
+
+const fill = (text: string, booking: TemplateBooking): string =>
+  text.replace(PLACEHOLDER, (placeholder, name: string) =>
+    NOTIFICATION_TEMPLATE_VARIABLES[name]?.value(booking) ?? placeholder
+  );
+
+// Fills in a template. Lines left blank by empty variables, such as
+// {{decisionReason}} when none was given, are collapsed.
+export const renderNotificationTemplate = (
+  template: Pick<NotificationTemplate, 'subject' | 'body'>,
+  booking: TemplateBooking
+): { subject: string; text: string } => ({
+  subject: fill(template.subject, booking).replace(/\s*\n\s*/g, ' ').trim(),
+  text: fill(template.body, booking).replace(/\n[ \t]*\n(?:[ \t]*\n)+/g, '\n\n').trim()
+});
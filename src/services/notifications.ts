@@ -0,0 +1,89 @@
+// Customer notifications. Booking changes and waitlist offers queue one
+// message per configured channel in the service's outbox, saved together with the change itself;
+// the service then delivers them, retrying failures with backoff. Their
+// content comes from the templates in notificationTemplates.ts.
+//
+// Channels that only work in Node (SMTP, the file mailbox) live in server/.
+import { NotificationEvent, OutboxMessage } from './types';
+
+export interface NotificationChannel {
+  // Stored on each message so retries go through the same channel
+  readonly name: string;
+  // Resolves once the message has been handed over; throws to have it retried
+  send(message: OutboxMessage): Promise<void>;
+}
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  'created',
+  'approved',
+  'denied',
+  'cancelled',
+  'rescheduled',
+  'waitlist_offer'
+];
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  created: 'Booking received',
+  approved: 'Approved',
+  denied: 'Denied',
+  cancelled: 'Cancelled',
+  rescheduled: 'Rescheduled',
+  waitlist_offer: 'Waitlist offer'
+};
+
+// Attempts per message before it is marked failed
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+const FIRST_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Wait before retrying after the given number of failed attempts: 30s, 1m,
+// 2m, 4m... up to an hour
+export const getRetryDelayMs = (failedAttempts: number): number =>
+  Math.min(FIRST_RETRY_DELAY_MS * 2 ** (failedAttempts - 1), MAX_RETRY_DELAY_MS);
+
+// Development mailbox for the browser: logs each email to the console and
+// keeps it in memory
+export class ConsoleMailboxChannel implements NotificationChannel {
+  readonly name = 'mailbox';
+  readonly delivered: OutboxMessage[] = [];
+
+  async send(message: OutboxMessage): Promise<void> {
+    this.delivered.push(message);
+    console.log(`📧 EMAIL NOTIFICATION:
+      To: ${message.to}
+      Subject: ${message.subject}
+
+${message.text.replace(/^/gm, '      ')}
+${(message.attachments ?? []).map(attachment => `      📎 ${attachment.filename}\n`).join('')}    `);
+  }
+}
+
+// Posts each message as JSON. Receivers can use the X-Notification-Id header
+// to ignore retries of a message they already processed.
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook';
+
+  constructor(private url: string) {}
+
+  async send(message: OutboxMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Notification-Id': message.id },
+      body: JSON.stringify({
+        id: message.id,
+        event: message.event,
+        bookingId: message.bookingId,
+        waitlistEntryId: message.waitlistEntryId,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        attachments: message.attachments ?? [],
+        createdAt: message.createdAt
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+// Providers (staff members) and how their calendars are derived from the
+// shared schedule configuration.
+import { AvailabilityRule, Provider, ProviderInput, ScheduleConfig } from './types';
+import { validateWeeklyHours } from './schedule';
+import { isHexColor } from './appointmentTypes';
+
+export const DEFAULT_PROVIDER_ID = 'provider-default';
+
+// Stands in for the single calendar the service had before providers existed
+export const createDefaultProvider = (): Provider => ({
+  id: DEFAULT_PROVIDER_ID,
+  name: 'Main Calendar',
+  email: '',
+  weeklyHours: null,
+  color: '#8b5cf6',
+  priority: 1,
+  createdAt: new Date().toISOString()
+});
+
+// Returns a list of problems with the input, empty when it is valid
+export const validateProvider = (input: ProviderInput): string[] => {
+  const errors: string[] = [];
+  if (!input?.name?.trim()) {
+    errors.push('Name is required');
+  }
+  if (input?.email?.trim() && !input.email.includes('@')) {
+    errors.push('Invalid email address');
+  }
+  if (!isHexColor(input?.color)) {
+    errors.push('Color must be a hex value like #8b5cf6');
+  }
+  if (!Number.isInteger(input?.priority) || input.priority < 1) {
+    errors.push('Priority must be a whole number of 1 or more');
+  }
+  if (input?.weeklyHours !== null && input?.weeklyHours !== undefined) {
+    errors.push(...validateWeeklyHours(input.weeklyHours));
+  }
+  return errors;
+};
+
+// The schedule configuration as seen by one provider: their own hours if
+// they have any, the business hours otherwise
+export const getProviderSchedule = (config: ScheduleConfig, provider: Provider): ScheduleConfig =>
+  provider.weeklyHours ? { ...config, weeklyHours: provider.weeklyHours } : config;
+
+// Rules without a provider apply to everyone
+export const ruleAppliesToProvider = (rule: AvailabilityRule, providerId: string): boolean =>
+  !rule.providerId || rule.providerId === providerId;
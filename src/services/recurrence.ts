@@ -0,0 +1,151 @@
+// Expansion of recurring availability rules. A rule's `date` is its first
+// occurrence; `recurrence` repeats it and `exceptions` skips single dates.
+// All dates are business-local date keys (YYYY-MM-DD).
+import { AvailabilityRule, RuleRecurrence } from './types';
+import { addDaysToDateKey, getWeekdayOfDateKey } from './timezone';
+import { WEEKDAY_NAMES } from './schedule';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isDateKey = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+const dayNumber = (dateKey: string) => Math.round(Date.parse(`${dateKey}T00:00:00Z`) / DAY_MS);
+
+// Sunday that starts the week containing the date
+const weekStart = (dateKey: string) => dayNumber(dateKey) - getWeekdayOfDateKey(dateKey);
+
+// Last date the rule can apply on, or null if it repeats forever
+export const getRuleEndDate = (rule: AvailabilityRule): string | null => {
+  const recurrence = rule.recurrence;
+  if (!recurrence) return rule.date;
+  if (recurrence.type === 'weekly') return recurrence.until ?? null;
+  return recurrence.endDate ?? null;
+};
+
+// Whether the rule has an occurrence on the given date
+export const ruleAppliesOn = (rule: AvailabilityRule, dateKey: string): boolean => {
+  if (dateKey < rule.date) return false;
+  if (rule.exceptions?.includes(dateKey)) return false;
+
+  const endDate = getRuleEndDate(rule);
+  if (endDate && dateKey > endDate) return false;
+
+  const recurrence = rule.recurrence;
+  if (!recurrence) return dateKey === rule.date;
+
+  if (recurrence.type === 'dateRange') return true;
+
+  if (!recurrence.weekdays.includes(getWeekdayOfDateKey(dateKey))) return false;
+  const weeksSinceStart = (weekStart(dateKey) - weekStart(rule.date)) / 7;
+  return weeksSinceStart % recurrence.intervalWeeks === 0;
+};
+
+// Dates between from and to (inclusive) on which the rule applies
+export const expandRuleOccurrences = (
+  rule: AvailabilityRule,
+  fromDateKey: string,
+  toDateKey: string,
+  limit = Infinity
+): string[] => {
+  const occurrences: string[] = [];
+  const endDate = getRuleEndDate(rule);
+  const last = endDate && endDate < toDateKey ? endDate : toDateKey;
+
+  for (
+    let date = fromDateKey > rule.date ? fromDateKey : rule.date;
+    date <= last && occurrences.length < limit;
+    date = addDaysToDateKey(date, 1)
+  ) {
+    if (ruleAppliesOn(rule, date)) {
+      occurrences.push(date);
+    }
+  }
+  return occurrences;
+};
+
+// Human readable summary, e.g. "Every 2 weeks on Mon, Fri until 2024-06-30"
+export const describeRecurrence = (rule: AvailabilityRule): string => {
+  const recurrence = rule.recurrence;
+  if (!recurrence) return 'One-off';
+
+  if (recurrence.type === 'dateRange') {
+    return recurrence.endDate ? `Every day until ${recurrence.endDate}` : 'Every day, no end date';
+  }
+
+  const days = [...recurrence.weekdays]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map(day => WEEKDAY_NAMES[day].slice(0, 3))
+    .join(', ');
+  const every = recurrence.intervalWeeks === 1 ? 'Weekly' : `Every ${recurrence.intervalWeeks} weeks`;
+  return `${every} on ${days}${recurrence.until ? ` until ${recurrence.until}` : ''}`;
+};
+
+// Returns a list of problems with the recurrence, empty when it is valid
+export const validateRecurrence = (startDate: string, recurrence: RuleRecurrence | undefined): string[] => {
+  if (recurrence === undefined) return [];
+  // Input from the HTTP API is only shape-checked by the server
+  if (typeof recurrence !== 'object' || recurrence === null || Array.isArray(recurrence)) {
+    return ['Recurrence must be an object with a type'];
+  }
+
+  const errors: string[] = [];
+  if (recurrence.type === 'weekly') {
+    const { weekdays, intervalWeeks, until } = recurrence;
+    if (!Array.isArray(weekdays) || weekdays.length === 0 ||
+        !weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      errors.push('Pick at least one weekday');
+    }
+    if (!Number.isInteger(intervalWeeks) || intervalWeeks < 1 || intervalWeeks > 52) {
+      errors.push('Repeat interval must be between 1 and 52 weeks');
+    }
+    if (until !== undefined && (!isDateKey(until) || until < startDate)) {
+      errors.push('End date must be on or after the start date');
+    }
+  } else if (recurrence.type === 'dateRange') {
+    const { endDate } = recurrence;
+    if (endDate !== undefined && (!isDateKey(endDate) || endDate < startDate)) {
+      errors.push('End date must be on or after the start date');
+    }
+  } else {
+    errors.push('Unknown recurrence type');
+  }
+  return errors;
+};
+
+// Open-ended rules are compared over this many days after the later start
+const OVERLAP_WINDOW_DAYS = 400;
+
+// First date on which both rules apply at a shared time, or null if the
+// rules never overlap
+export const findOverlapDate = (a: AvailabilityRule, b: AvailabilityRule): string | null => {
+  if (!a.timeSlots.some(time => b.timeSlots.includes(time))) return null;
+
+  const start = a.date > b.date ? a.date : b.date;
+  const end = [getRuleEndDate(a), getRuleEndDate(b), addDaysToDateKey(start, OVERLAP_WINDOW_DAYS)]
+    .filter((date): date is string => date !== null)
+    .sort()[0];
+
+  for (let date = start; date <= end; date = addDaysToDateKey(date, 1)) {
+    if (ruleAppliesOn(a, date) && ruleAppliesOn(b, date)) {
+      return date;
+    }
+  }
+  return null;
+};
+
+// Whether two rules start on the same date and repeat in the same way
+export const haveSameSchedule = (a: AvailabilityRule, b: AvailabilityRule): boolean => {
+  if (a.date !== b.date) return false;
+  const ra = a.recurrence;
+  const rb = b.recurrence;
+  if (!ra || !rb) return !ra && !rb;
+  if (ra.type === 'dateRange' && rb.type === 'dateRange') return ra.endDate === rb.endDate;
+  if (ra.type === 'weekly' && rb.type === 'weekly') {
+    return ra.intervalWeeks === rb.intervalWeeks &&
+      ra.until === rb.until &&
+      [...ra.weekdays].sort().join() === [...rb.weekdays].sort().join();
+  }
+  return false;
+};
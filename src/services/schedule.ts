@@ -0,0 +1,178 @@
+// Business-hours configuration and slot generation. Both the slot list served
+// to customers and the time pickers in the admin UI are derived from a single
+// ScheduleConfig so they can never disagree.
+import { ScheduleConfig, TimeInterval } from './types';
+import { getLocalTimeZone, isValidTimeZone } from './timezone';
+import { isAssignmentStrategy } from './assignment';
+import { isValidBuffer, MAX_BUFFER_MINUTES } from './appointmentTypes';
+import { isValidBookingCap, MAX_BOOKING_CAP } from './bookingCaps';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Monday-Friday, 9 AM - 5 PM, 30-minute slots, two weeks ahead with no
+// minimum notice or booking caps, cancellations allowed until the start,
+// providers assigned in priority order, no buffers between bookings
+export const DEFAULT_SCHEDULE_CONFIG: ScheduleConfig = {
+  timeZone: 'UTC',
+  weeklyHours: [
+    [],
+    [{ start: '09:00', end: '17:00' }],
+    [{ start: '09:00', end: '17:00' }],
+    [{ start: '09:00', end: '17:00' }],
+    [{ start: '09:00', end: '17:00' }],
+    [{ start: '09:00', end: '17:00' }],
+    []
+  ],
+  slotLengthMinutes: 30,
+  bookingHorizonDays: 14,
+  minimumNoticeMinutes: 0,
+  cancellationCutoffMinutes: 0,
+  dailyBookingCap: null,
+  weeklyBookingCap: null,
+  providerDailyBookingCap: null,
+  providerWeeklyBookingCap: null,
+  assignmentStrategy: 'priority',
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 0
+};
+
+// Default configuration in the timezone of the machine creating it
+export const createDefaultScheduleConfig = (): ScheduleConfig => ({
+  ...structuredClone(DEFAULT_SCHEDULE_CONFIG),
+  timeZone: getLocalTimeZone()
+});
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isTimeKey = (value: unknown): value is string =>
+  typeof value === 'string' && TIME_PATTERN.test(value);
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Longest minimum notice: a month
+export const MAX_NOTICE_MINUTES = 30 * 24 * 60;
+
+// Human-readable length of time, e.g. "4 hours" or "1 day 30 minutes"
+export const formatMinutes = (totalMinutes: number): string => {
+  const parts = [
+    [Math.floor(totalMinutes / 1440), 'day'],
+    [Math.floor((totalMinutes % 1440) / 60), 'hour'],
+    [totalMinutes % 60, 'minute']
+  ] as const;
+  const text = parts
+    .filter(([amount]) => amount > 0)
+    .map(([amount, unit]) => `${amount} ${unit}${amount === 1 ? '' : 's'}`)
+    .join(' ');
+  return text || '0 minutes';
+};
+
+export const minutesToTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+// Start times of every slot that fits completely inside the given intervals
+export const generateSlotTimes = (intervals: TimeInterval[], slotLengthMinutes: number): string[] => {
+  const times: string[] = [];
+  [...intervals]
+    .sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start))
+    .forEach(interval => {
+      const end = timeToMinutes(interval.end);
+      for (let start = timeToMinutes(interval.start); start + slotLengthMinutes <= end; start += slotLengthMinutes) {
+        times.push(minutesToTime(start));
+      }
+    });
+  return times;
+};
+
+// Slot start times for a weekday (0 = Sunday ... 6 = Saturday)
+export const getSlotTimesForWeekday = (config: ScheduleConfig, weekday: number): string[] =>
+  generateSlotTimes(config.weeklyHours[weekday] ?? [], config.slotLengthMinutes);
+
+// Returns a list of problems with the config, empty when it is valid
+export const validateScheduleConfig = (config: ScheduleConfig): string[] => {
+  const errors: string[] = [];
+
+  if (!config || typeof config !== 'object') {
+    return ['Schedule configuration is required'];
+  }
+
+  if (!isValidTimeZone(config.timeZone)) {
+    errors.push(`Unknown timezone: ${String(config.timeZone)}`);
+  }
+
+  if (!Number.isInteger(config.slotLengthMinutes) || config.slotLengthMinutes < 5 || config.slotLengthMinutes > 480) {
+    errors.push('Slot length must be a whole number of minutes between 5 and 480');
+  }
+
+  if (!Number.isInteger(config.bookingHorizonDays) || config.bookingHorizonDays < 1 || config.bookingHorizonDays > 365) {
+    errors.push('Booking horizon must be between 1 and 365 days');
+  }
+
+  if (!Number.isInteger(config.minimumNoticeMinutes) || config.minimumNoticeMinutes < 0 || config.minimumNoticeMinutes > MAX_NOTICE_MINUTES) {
+    errors.push(`Minimum notice must be a whole number of minutes between 0 and ${MAX_NOTICE_MINUTES}`);
+  } else if (config.minimumNoticeMinutes >= config.bookingHorizonDays * 1440) {
+    errors.push('Minimum notice must be shorter than the booking horizon');
+  }
+
+  if (!Number.isInteger(config.cancellationCutoffMinutes) || config.cancellationCutoffMinutes < 0 || config.cancellationCutoffMinutes > MAX_NOTICE_MINUTES) {
+    errors.push(`Cancellation cutoff must be a whole number of minutes between 0 and ${MAX_NOTICE_MINUTES}`);
+  }
+
+  const caps = [config.dailyBookingCap, config.weeklyBookingCap, config.providerDailyBookingCap, config.providerWeeklyBookingCap];
+  if (!caps.every(isValidBookingCap)) {
+    errors.push(`Booking caps must be empty or a whole number between 1 and ${MAX_BOOKING_CAP}`);
+  }
+
+  if (!isAssignmentStrategy(config.assignmentStrategy)) {
+    errors.push('Assignment strategy must be "roundRobin", "leastBooked" or "priority"');
+  }
+
+  if (!isValidBuffer(config.bufferBeforeMinutes) || !isValidBuffer(config.bufferAfterMinutes)) {
+    errors.push(`Buffers must be a whole number of minutes between 0 and ${MAX_BUFFER_MINUTES}`);
+  }
+
+  return [...errors, ...validateWeeklyHours(config.weeklyHours)];
+};
+
+// Checks a week of opening intervals (business or provider hours)
+export const validateWeeklyHours = (weeklyHours: TimeInterval[][]): string[] => {
+  const errors: string[] = [];
+
+  if (!Array.isArray(weeklyHours) || weeklyHours.length !== 7) {
+    return ['Opening hours must be given for all 7 weekdays'];
+  }
+
+  weeklyHours.forEach((intervals, weekday) => {
+    const day = WEEKDAY_NAMES[weekday];
+    if (!Array.isArray(intervals)) {
+      errors.push(`${day}: opening hours must be a list of intervals`);
+      return;
+    }
+
+    const valid = intervals.filter(interval => {
+      if (!TIME_PATTERN.test(interval?.start) || !TIME_PATTERN.test(interval?.end)) {
+        errors.push(`${day}: times must use the HH:MM format`);
+        return false;
+      }
+      if (timeToMinutes(interval.start) >= timeToMinutes(interval.end)) {
+        errors.push(`${day}: ${interval.start}-${interval.end} must end after it starts`);
+        return false;
+      }
+      return true;
+    });
+
+    const sorted = [...valid].sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+    for (let i = 1; i < sorted.length; i++) {
+      if (timeToMinutes(sorted[i].start) < timeToMinutes(sorted[i - 1].end)) {
+        errors.push(`${day}: ${sorted[i - 1].start}-${sorted[i - 1].end} overlaps ${sorted[i].start}-${sorted[i].end}`);
+      }
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,380 @@
+// Versioned persistence schema for the appointment service. Every stored
+// snapshot carries a schemaVersion; older snapshots are upgraded on load by
+// running the migrations below in order.
+import {
+  AppointmentType,
+  AvailabilityRule,
+  Booking,
+  BookingEvent,
+  BookingEventValues,
+  CannedResponse,
+  NotificationTemplate,
+  OutboxMessage,
+  Provider,
+  ScheduleConfig,
+  WaitlistEntry
+} from './types';
+import { createDefaultAppointmentType, DEFAULT_APPOINTMENT_TYPE_ID } from './appointmentTypes';
+import { createDefaultProvider } from './providers';
+import { createDefaultCannedResponses } from './cannedResponses';
+import { createDefaultNotificationTemplates } from './notificationTemplates';
+import { DEFAULT_SCHEDULE_CONFIG, validateScheduleConfig } from './schedule';
+import { createBookingEvent, generateManageToken, getBookingPlacement } from './bookings';
+import { getLocalTimeZone, zonedTimeToInstant } from './timezone';
+
+// Bump this and append a migration whenever the shape of stored data changes
+export const CURRENT_SCHEMA_VERSION = 19;
+
+export interface PersistedState {
+  schemaVersion: number;
+  bookings: Booking[];
+  availabilityRules: AvailabilityRule[];
+  scheduleConfig: ScheduleConfig;
+  appointmentTypes: AppointmentType[];
+  providers: Provider[];
+  waitlist: WaitlistEntry[];
+  cannedResponses: CannedResponse[];
+  outbox: OutboxMessage[];
+  notificationTemplates: NotificationTemplate[];
+  lastUpdated: string;
+}
+
+type RawSnapshot = Record<string, unknown>;
+
+interface Migration {
+  // Version this migration upgrades a snapshot to
+  version: number;
+  description: string;
+  migrate: (snapshot: RawSnapshot) => RawSnapshot;
+}
+
+// Events for a booking made before the log existed, from what was stored
+// about it: its creation, its moves and a cancellation. Other status changes
+// weren't recorded and can't be recovered.
+const backfillBookingEvents = (booking: Booking): BookingEvent[] => {
+  const placements: BookingEventValues[] = [
+    ...booking.reschedules.map(reschedule => getBookingPlacement({
+      slotId: reschedule.fromSlotId,
+      startsAt: reschedule.fromStartsAt,
+      providerId: reschedule.fromProviderId,
+      providerName: reschedule.fromProviderName
+    })),
+    getBookingPlacement(booking)
+  ];
+  const events = [
+    createBookingEvent('created', 'customer', null, { status: 'pending', ...placements[0] }, booking.createdAt),
+    ...booking.reschedules.map((reschedule, index) =>
+      createBookingEvent('rescheduled', reschedule.rescheduledBy, placements[index], placements[index + 1], reschedule.rescheduledAt)
+    )
+  ];
+  if (booking.status === 'cancelled' && booking.cancelledAt) {
+    events.push(createBookingEvent('status_changed', booking.cancelledBy ?? 'customer', null, { status: 'cancelled' }, booking.cancelledAt));
+  }
+  return events;
+};
+
+// Ordered list of migrations. Snapshots written before versioning existed
+// are treated as version 0.
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Stamp schema version on unversioned snapshots',
+    migrate: snapshot => ({
+      ...snapshot,
+      bookings: snapshot.bookings ?? [],
+      availabilityRules: snapshot.availabilityRules ?? []
+    })
+  },
+  {
+    version: 2,
+    description: 'Add configurable business hours (previously fixed at Mon-Fri 9-17)',
+    migrate: snapshot => ({
+      ...snapshot,
+      scheduleConfig: structuredClone(DEFAULT_SCHEDULE_CONFIG)
+    })
+  },
+  {
+    version: 3,
+    description: 'Add business timezone and absolute booking instants',
+    migrate: snapshot => {
+      // Older data was generated in the zone of whichever machine ran the
+      // app, so that is the best guess for the business timezone
+      const timeZone = getLocalTimeZone();
+      const scheduleConfig = { ...(snapshot.scheduleConfig as ScheduleConfig), timeZone };
+      const bookings = (snapshot.bookings as RawSnapshot[]).map(booking => {
+        const startsAt = zonedTimeToInstant(String(booking.date), String(booking.time), timeZone)
+          ?? new Date(`${booking.date}T${booking.time}:00Z`);
+        const endsAt = new Date(startsAt.getTime() + scheduleConfig.slotLengthMinutes * 60000);
+        return { ...booking, startsAt: startsAt.toISOString(), endsAt: endsAt.toISOString() };
+      });
+      return { ...snapshot, scheduleConfig, bookings };
+    }
+  },
+  {
+    version: 4,
+    description: 'Add appointment types; existing bookings become standard appointments',
+    migrate: snapshot => {
+      const { slotLengthMinutes } = snapshot.scheduleConfig as ScheduleConfig;
+      const standardType = createDefaultAppointmentType(slotLengthMinutes);
+      const bookings = (snapshot.bookings as RawSnapshot[]).map(booking => ({
+        ...booking,
+        appointmentTypeId: DEFAULT_APPOINTMENT_TYPE_ID,
+        appointmentTypeName: standardType.name,
+        durationMinutes: slotLengthMinutes
+      }));
+      return { ...snapshot, bookings, appointmentTypes: [standardType] };
+    }
+  },
+  {
+    version: 5,
+    description: 'Add providers; existing bookings move to a default provider working business hours',
+    migrate: snapshot => {
+      const provider = createDefaultProvider();
+      const bookings = (snapshot.bookings as RawSnapshot[]).map(booking => ({
+        ...booking,
+        providerId: provider.id,
+        providerName: provider.name
+      }));
+      return { ...snapshot, bookings, providers: [provider] };
+    }
+  },
+  {
+    version: 6,
+    description: 'Add provider priorities and the assignment strategy',
+    migrate: snapshot => {
+      // Priority follows the existing list order, which was how "any
+      // provider" bookings were assigned
+      const providers = (snapshot.providers as RawSnapshot[]).map((provider, index) => ({
+        ...provider,
+        priority: index + 1
+      }));
+      const scheduleConfig = {
+        ...(snapshot.scheduleConfig as RawSnapshot),
+        assignmentStrategy: 'priority'
+      };
+      return { ...snapshot, providers, scheduleConfig };
+    }
+  },
+  {
+    version: 7,
+    description: 'Add appointment type capacity',
+    migrate: snapshot => ({
+      ...snapshot,
+      // Every existing type was one customer per session
+      appointmentTypes: (snapshot.appointmentTypes as RawSnapshot[]).map(type => ({ ...type, capacity: 1 }))
+    })
+  },
+  {
+    version: 8,
+    description: 'Add buffers around bookings',
+    migrate: snapshot => ({
+      ...snapshot,
+      scheduleConfig: { ...(snapshot.scheduleConfig as RawSnapshot), bufferBeforeMinutes: 0, bufferAfterMinutes: 0 },
+      // Types follow the (empty) global buffers
+      appointmentTypes: (snapshot.appointmentTypes as RawSnapshot[]).map(type => ({
+        ...type,
+        bufferBeforeMinutes: null,
+        bufferAfterMinutes: null
+      }))
+    })
+  },
+  {
+    version: 9,
+    description: 'Add minimum booking notice',
+    migrate: snapshot => ({
+      ...snapshot,
+      // Slots used to be bookable until they started
+      scheduleConfig: { ...(snapshot.scheduleConfig as RawSnapshot), minimumNoticeMinutes: 0 }
+    })
+  },
+  {
+    version: 10,
+    description: 'Add daily and weekly booking caps',
+    migrate: snapshot => ({
+      ...snapshot,
+      scheduleConfig: {
+        ...(snapshot.scheduleConfig as RawSnapshot),
+        dailyBookingCap: null,
+        weeklyBookingCap: null,
+        providerDailyBookingCap: null,
+        providerWeeklyBookingCap: null
+      }
+    })
+  },
+  {
+    version: 11,
+    description: 'Add booking management tokens and a cancellation cutoff',
+    migrate: snapshot => ({
+      ...snapshot,
+      // Every booking needs a token, but these are never shown: tokens only
+      // come back when a booking is made, so existing bookings stay
+      // managed by the admin
+      bookings: (snapshot.bookings as RawSnapshot[]).map(booking => ({
+        ...booking,
+        manageToken: generateManageToken()
+      })),
+      scheduleConfig: { ...(snapshot.scheduleConfig as RawSnapshot), cancellationCutoffMinutes: 0 }
+    })
+  },
+  {
+    version: 12,
+    description: 'Add booking reschedule history',
+    migrate: snapshot => ({
+      ...snapshot,
+      bookings: (snapshot.bookings as RawSnapshot[]).map(booking => ({ ...booking, reschedules: [] }))
+    })
+  },
+  {
+    version: 13,
+    description: 'Add the waitlist',
+    migrate: snapshot => ({ ...snapshot, waitlist: [] })
+  },
+  {
+    version: 14,
+    description: 'Add booking notes and event logs',
+    migrate: snapshot => ({
+      ...snapshot,
+      bookings: (snapshot.bookings as RawSnapshot[]).map(booking => ({
+        ...booking,
+        notes: '',
+        events: backfillBookingEvents(booking as unknown as Booking)
+      }))
+    })
+  },
+  {
+    version: 15,
+    description: 'Add canned responses for approvals and denials',
+    migrate: snapshot => ({ ...snapshot, cannedResponses: createDefaultCannedResponses() })
+  },
+  {
+    version: 16,
+    description: 'Add the notification outbox',
+    migrate: snapshot => ({ ...snapshot, outbox: [] })
+  },
+  {
+    version: 17,
+    description: 'Add editable notification templates',
+    migrate: snapshot => ({ ...snapshot, notificationTemplates: createDefaultNotificationTemplates() })
+  },
+  {
+    version: 18,
+    description: 'Rename the {{reason}} template variable to {{decisionReason}}',
+    // {{reason}} now means the customer's reason, so templates written
+    // before keep showing the admin's message
+    migrate: snapshot => ({
+      ...snapshot,
+      notificationTemplates: (snapshot.notificationTemplates as RawSnapshot[]).map(template => ({
+        ...template,
+        subject: String(template.subject).replace(/\{\{\s*reason\s*\}\}/g, '{{decisionReason}}'),
+        body: String(template.body).replace(/\{\{\s*reason\s*\}\}/g, '{{decisionReason}}')
+      }))
+    })
+  },
+  {
+    version: 19,
+    description: 'Add the waitlist offer notification template',
+    migrate: snapshot => {
+      const templates = snapshot.notificationTemplates as RawSnapshot[];
+      const missing = createDefaultNotificationTemplates()
+        .filter(template => !templates.some(existing => existing.event === template.event));
+      return { ...snapshot, notificationTemplates: [...templates, ...missing] };
+    }
+  }
+];
+
+// Raised when a stored snapshot can't be read. The caller quarantines the
+// payload instead of discarding it.
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+const isObject = (value: unknown): value is RawSnapshot =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const assertArrayOf = (value: unknown, field: string, requiredKeys: string[]) => {
+  if (!Array.isArray(value)) {
+    throw new SnapshotError(`"${field}" is not an array`);
+  }
+  value.forEach((item, index) => {
+    if (!isObject(item)) {
+      throw new SnapshotError(`${field}[${index}] is not an object`);
+    }
+    const missing = requiredKeys.filter(key => item[key] === undefined);
+    if (missing.length > 0) {
+      throw new SnapshotError(`${field}[${index}] is missing ${missing.join(', ')}`);
+    }
+  });
+};
+
+// Parses a stored snapshot and upgrades it to CURRENT_SCHEMA_VERSION.
+// Throws SnapshotError if the payload is unreadable, fails validation, or
+// was written by a newer version of the app.
+export const migrateSnapshot = (raw: string): { state: PersistedState; fromVersion: number } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new SnapshotError(`Snapshot is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!isObject(parsed)) {
+    throw new SnapshotError('Snapshot is not an object');
+  }
+
+  const fromVersion = parsed.schemaVersion === undefined ? 0 : parsed.schemaVersion;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 0) {
+    throw new SnapshotError(`Invalid schema version: ${String(fromVersion)}`);
+  }
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SnapshotError(
+      `Snapshot schema version ${fromVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  let snapshot = parsed;
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue;
+    try {
+      snapshot = { ...migration.migrate(snapshot), schemaVersion: migration.version };
+    } catch (error) {
+      throw new SnapshotError(
+        `Migration to v${migration.version} failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    console.log(`🔧 Migrated snapshot to v${migration.version}: ${migration.description}`);
+  }
+
+  assertArrayOf(snapshot.bookings, 'bookings', ['id', 'slotId', 'status', 'date', 'time', 'startsAt', 'endsAt']);
+  assertArrayOf(snapshot.availabilityRules, 'availabilityRules', ['id', 'date', 'timeSlots']);
+  assertArrayOf(snapshot.appointmentTypes, 'appointmentTypes', ['id', 'name', 'durationMinutes']);
+  assertArrayOf(snapshot.providers, 'providers', ['id', 'name']);
+  assertArrayOf(snapshot.waitlist, 'waitlist', ['id', 'date', 'status', 'claimToken']);
+  assertArrayOf(snapshot.cannedResponses, 'cannedResponses', ['id', 'status', 'title', 'message']);
+  assertArrayOf(snapshot.outbox, 'outbox', ['id', 'channel', 'status', 'attempts']);
+  assertArrayOf(snapshot.notificationTemplates, 'notificationTemplates', ['id', 'event', 'channel', 'subject', 'body']);
+
+  const scheduleErrors = validateScheduleConfig(snapshot.scheduleConfig as ScheduleConfig);
+  if (scheduleErrors.length > 0) {
+    throw new SnapshotError(`Invalid schedule configuration: ${scheduleErrors.join('; ')}`);
+  }
+
+  return {
+    state: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      bookings: snapshot.bookings as Booking[],
+      availabilityRules: snapshot.availabilityRules as AvailabilityRule[],
+      scheduleConfig: snapshot.scheduleConfig as ScheduleConfig,
+      appointmentTypes: snapshot.appointmentTypes as AppointmentType[],
+      providers: snapshot.providers as Provider[],
+      waitlist: snapshot.waitlist as WaitlistEntry[],
+      cannedResponses: snapshot.cannedResponses as CannedResponse[],
+      outbox: snapshot.outbox as OutboxMessage[],
+      notificationTemplates: snapshot.notificationTemplates as NotificationTemplate[],
+      lastUpdated: typeof snapshot.lastUpdated === 'string' ? snapshot.lastUpdated : new Date().toISOString()
+    },
+    fromVersion
+  };
+};
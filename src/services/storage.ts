@@ -0,0 +1,146 @@
+// Storage adapters for the appointment service. Each adapter persists the
+// whole service state as a single serialized snapshot, so a save either
+// lands completely or not at all - bookings and availability rules can never
+// be written separately and drift out of sync.
+
+export interface StorageAdapter {
+  // Human readable name used in logs
+  readonly name: string;
+  // Returns the last saved snapshot, or null when nothing has been stored yet
+  load(): Promise<string | null>;
+  // Atomically replaces the stored snapshot
+  save(snapshot: string): Promise<void>;
+  // Sets an unreadable snapshot aside so it can be inspected or recovered
+  // later, instead of being overwritten by the next save
+  quarantine(snapshot: string, reason: string): Promise<void>;
+}
+
+export interface QuarantinedSnapshot {
+  snapshot: string;
+  reason: string;
+  quarantinedAt: string;
+}
+
+// Keeps the snapshot in memory only. Used by tests and as the fallback when no
+// persistent storage is available.
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private snapshot: string | null;
+
+  constructor(initialSnapshot: string | null = null) {
+    this.snapshot = initialSnapshot;
+  }
+
+  async load(): Promise<string | null> {
+    return this.snapshot;
+  }
+
+  async save(snapshot: string): Promise<void> {
+    this.snapshot = snapshot;
+  }
+
+  readonly quarantined: QuarantinedSnapshot[] = [];
+
+  async quarantine(snapshot: string, reason: string): Promise<void> {
+    this.quarantined.push({ snapshot, reason, quarantinedAt: new Date().toISOString() });
+  }
+}
+
+// Browser localStorage. A single setItem call replaces the whole value, which
+// makes every save atomic.
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage';
+
+  constructor(private key: string) {}
+
+  async load(): Promise<string | null> {
+    return localStorage.getItem(this.key);
+  }
+
+  async save(snapshot: string): Promise<void> {
+    localStorage.setItem(this.key, snapshot);
+  }
+
+  // Stored next to the live snapshot under "<key>.quarantine.<timestamp>"
+  async quarantine(snapshot: string, reason: string): Promise<void> {
+    const entry: QuarantinedSnapshot = { snapshot, reason, quarantinedAt: new Date().toISOString() };
+    localStorage.setItem(`${this.key}.quarantine.${Date.now()}`, JSON.stringify(entry));
+  }
+}
+
+// Browser IndexedDB. The snapshot lives in one record of one object store and
+// is written inside a readwrite transaction.
+export class IndexedDbStorageAdapter implements StorageAdapter {
+  readonly name = 'IndexedDB';
+  private static storeName = 'snapshots';
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private databaseName: string, private key: string) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IndexedDbStorageAdapter.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  async load(): Promise<string | null> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = db
+        .transaction(IndexedDbStorageAdapter.storeName, 'readonly')
+        .objectStore(IndexedDbStorageAdapter.storeName)
+        .get(this.key);
+      request.onsuccess = () => resolve(typeof request.result === 'string' ? request.result : null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async save(snapshot: string): Promise<void> {
+    return this.put(this.key, snapshot);
+  }
+
+  async quarantine(snapshot: string, reason: string): Promise<void> {
+    const entry: QuarantinedSnapshot = { snapshot, reason, quarantinedAt: new Date().toISOString() };
+    return this.put(`${this.key}.quarantine.${Date.now()}`, JSON.stringify(entry));
+  }
+
+  private async put(key: string, value: string): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(IndexedDbStorageAdapter.storeName, 'readwrite');
+      transaction.objectStore(IndexedDbStorageAdapter.storeName).put(value, key);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+}
+
+export type BrowserStorageKind = 'memory' | 'localStorage' | 'indexeddb';
+
+// Picks a browser adapter, falling back to memory when the requested storage
+// does not exist in the current environment.
+export const createBrowserStorage = (kind: BrowserStorageKind, key: string): StorageAdapter => {
+  if (kind === 'indexeddb' && typeof indexedDB !== 'undefined') {
+    return new IndexedDbStorageAdapter('appointment-service', key);
+  }
+  if (kind === 'localStorage' && typeof localStorage !== 'undefined') {
+    return new LocalStorageAdapter(key);
+  }
+  if (kind !== 'memory') {
+    console.warn(`⚠️ ${kind} is not available here, falling back to in-memory storage`);
+  }
+  return new MemoryStorageAdapter();
+};
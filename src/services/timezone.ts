@@ -0,0 +1,125 @@
+// Timezone helpers built on Intl, so slot dates are computed in the business's
+// IANA timezone rather than in UTC or in whatever zone the code runs in.
+//
+// "Date keys" are calendar dates written as YYYY-MM-DD. They carry no zone of
+// their own; the zone is always passed alongside.
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The timezone of the machine running the code, falling back to UTC
+export const getLocalTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Wall-clock date and time of an instant in the given zone
+export const getZonedParts = (instant: Date, timeZone: string): ZonedParts => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute)
+  };
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Calendar date (YYYY-MM-DD) of an instant in the given zone
+export const toDateKey = (instant: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Wall-clock time (HH:MM) of an instant in the given zone
+export const toTimeKey = (instant: Date, timeZone: string): string => {
+  const { hour, minute } = getZonedParts(instant, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+export const addDaysToDateKey = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// Weekday of a calendar date, 0 = Sunday (same as Date.getDay())
+export const getWeekdayOfDateKey = (dateKey: string): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+// Monday-Sunday week containing the date
+export const getWeekRange = (dateKey: string): { start: string; end: string } => {
+  const daysSinceMonday = (getWeekdayOfDateKey(dateKey) + 6) % 7;
+  const start = addDaysToDateKey(dateKey, -daysSinceMonday);
+  return { start, end: addDaysToDateKey(start, 6) };
+};
+
+// Converts a wall-clock date and time in the given zone to an instant.
+// Returns null when that local time doesn't exist (skipped by a DST change).
+export const zonedTimeToInstant = (dateKey: string, time: string, timeZone: string): Date | null => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Offset of the zone at a given instant, in milliseconds
+  const offsetAt = (timestamp: number) => {
+    const parts = getZonedParts(new Date(timestamp), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - timestamp;
+  };
+
+  // Two passes settle the offset on either side of a DST transition
+  let instant = wallClockAsUtc - offsetAt(wallClockAsUtc);
+  instant = wallClockAsUtc - offsetAt(instant);
+
+  const result = new Date(instant);
+  if (toDateKey(result, timeZone) !== dateKey || toTimeKey(result, timeZone) !== time) {
+    return null;
+  }
+  return result;
+};
+
+// Short zone label for display, e.g. "EST" or "GMT+2"
+export const getTimeZoneLabel = (timeZone: string, instant: Date = new Date()): string => {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(instant)
+    .find(p => p.type === 'timeZoneName');
+  return part?.value ?? timeZone;
+};
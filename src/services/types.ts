@@ -0,0 +1,597 @@
+// Shared data types for the appointment API. Used by the in-browser service,
+// the HTTP client and the Node server so all three agree on the wire format.
+export interface TimeSlot {
+  // "<date>-<time>" in business-local time, e.g. "2024-05-06-09:00"
+  id: string;
+  // Business-local calendar date (YYYY-MM-DD) and start time (HH:MM)
+  date: string;
+  time: string;
+  // Absolute start and end instants (ISO 8601, UTC)
+  startsAt: string;
+  endsAt: string;
+  // True while the slot is in the future and has a free provider or a
+  // group session with seats left
+  available: boolean;
+  // Providers with nothing booked at this time, who can start a new session
+  providerIds: string[];
+  // Group sessions (capacity above 1) already booked at this start time,
+  // including full ones
+  sessions: SlotSession[];
+  // Seats per session set by an "available" rule for this slot; otherwise
+  // each appointment type's own capacity applies
+  capacity?: number;
+  // Set when the slot is outside business hours and was opened by an
+  // "available" availability rule
+  openedByRuleId?: string;
+  // Why the slot can't be booked; only set when `available` is false
+  unavailableReason?: SlotUnavailableReason;
+}
+
+// "notice" means the slot starts sooner than the minimum notice allows;
+// "closed" covers blocking rules and providers not working; "buffer" means
+// the slot falls in the padding kept around another booking; "tooShort" that
+// the requested appointment type (or its buffers) doesn't fit from here;
+// "held" that another customer is filling in the booking form for it.
+// "limit" marks slots whose day or week has reached a booking cap; those
+// are left out of listings
+export type SlotUnavailableReason =
+  'past' | 'notice' | 'closed' | 'booked' | 'buffer' | 'full' | 'tooShort' | 'held' | 'limit';
+
+// Bookings of one type with one provider that start together and share
+// the session's seats
+export interface SlotSession {
+  providerId: string;
+  appointmentTypeId: string;
+  capacity: number;
+  seatsRemaining: number;
+}
+
+export interface AppointmentType {
+  id: string;
+  name: string;
+  durationMinutes: number;
+  description: string;
+  // Hex color used to tag bookings of this type, e.g. "#3b82f6"
+  color: string;
+  // Customers who can book the same session (1 for one-to-one appointments)
+  capacity: number;
+  // Padding kept free around each booking of this type, e.g. for cleanup.
+  // Null uses the buffers from the schedule configuration.
+  bufferBeforeMinutes: number | null;
+  bufferAfterMinutes: number | null;
+  createdAt: string;
+}
+
+export interface AppointmentTypeInput {
+  name: string;
+  durationMinutes: number;
+  description: string;
+  color: string;
+  capacity: number;
+  bufferBeforeMinutes: number | null;
+  bufferAfterMinutes: number | null;
+}
+
+// A member of staff with their own calendar. Bookings are always made with a
+// provider; availability rules apply to one provider or to everyone.
+export interface Provider {
+  id: string;
+  name: string;
+  email: string;
+  // Own opening hours per weekday, like ScheduleConfig.weeklyHours. Null
+  // means the provider works the business hours.
+  weeklyHours: TimeInterval[][] | null;
+  // Hex color used to tell providers apart in the admin views
+  color: string;
+  // Lower numbers are assigned first by the "priority" strategy and lead
+  // the round-robin rotation
+  priority: number;
+  createdAt: string;
+}
+
+export interface ProviderInput {
+  name: string;
+  email: string;
+  weeklyHours: TimeInterval[][] | null;
+  color: string;
+  priority: number;
+}
+
+// How bookings made with "any available provider" are assigned
+export type AssignmentStrategy = 'roundRobin' | 'leastBooked' | 'priority';
+
+// Why a booking went to its provider, kept for auditing fairness
+export interface ProviderAssignment {
+  // "requested" when the customer picked the provider themselves
+  strategy: AssignmentStrategy | 'requested';
+  reason: string;
+  // Providers who were free for the whole appointment, in priority order
+  candidateProviderIds: string[];
+  assignedAt: string;
+}
+
+// Denied and cancelled bookings no longer take up their time.
+// "rescheduled" is an approved booking that has since been moved;
+// checked_in, completed and no_show record whether the customer came.
+// Allowed transitions are listed in bookings.ts.
+export type BookingStatus =
+  'pending' | 'approved' | 'rescheduled' | 'checked_in' | 'completed' | 'no_show' | 'denied' | 'cancelled';
+
+// Statuses the admin sets directly. Bookings start out pending, and become
+// rescheduled by being moved.
+export type BookingStatusUpdate = Exclude<BookingStatus, 'pending' | 'rescheduled'>;
+
+export interface Booking {
+  id: string;
+  // First slot of the booking; longer appointment types cover the following
+  // consecutive slots up to `endsAt`
+  slotId: string;
+  appointmentTypeId: string;
+  // Copied from the type at booking time so later edits don't rewrite history
+  appointmentTypeName: string;
+  durationMinutes: number;
+  providerId: string;
+  // Copied from the provider at booking time, like appointmentTypeName
+  providerName: string;
+  // Missing on bookings made before automatic assignment existed
+  assignment?: ProviderAssignment;
+  name: string;
+  email: string;
+  reason: string;
+  status: BookingStatus;
+  // Secret that lets the customer manage the booking without an account
+  manageToken: string;
+  cancelledAt?: string;
+  // Missing on bookings cancelled before admins could cancel, which were
+  // all cancelled by the customer
+  cancelledBy?: 'admin' | 'customer';
+  // Earlier times of the booking, oldest first
+  reschedules: BookingReschedule[];
+  // The admin's explanation of the latest approval or denial, shown to the
+  // customer
+  decisionReason?: string;
+  // Internal admin notes, not shown to the customer
+  notes: string;
+  // Append-only log of everything that happened to the booking, oldest first
+  events: BookingEvent[];
+  // Business-local date and time, plus the absolute instants of the slot
+  date: string;
+  time: string;
+  startsAt: string;
+  endsAt: string;
+  createdAt: string;
+}
+
+// Where a booking was before it was moved, and who moved it
+export interface BookingReschedule {
+  fromSlotId: string;
+  fromStartsAt: string;
+  fromProviderId: string;
+  fromProviderName: string;
+  rescheduledAt: string;
+  rescheduledBy: 'admin' | 'customer';
+}
+
+// Who made a change. There are no admin accounts, so all admin changes are
+// recorded as "admin".
+export type BookingActor = 'admin' | 'customer';
+
+export type BookingEventType = 'created' | 'status_changed' | 'rescheduled' | 'notes_updated';
+
+// The booking fields an event can record, before and after the change
+export interface BookingEventValues {
+  status?: BookingStatus;
+  decisionReason?: string;
+  slotId?: string;
+  startsAt?: string;
+  providerId?: string;
+  providerName?: string;
+  notes?: string;
+}
+
+export interface BookingEvent {
+  id: string;
+  type: BookingEventType;
+  actor: BookingActor;
+  at: string;
+  // Null for "created", and for events back-filled by a migration whose
+  // earlier values weren't stored
+  previous: BookingEventValues | null;
+  next: BookingEventValues;
+}
+
+// The statuses an admin can explain to the customer
+export type DecisionStatus = 'approved' | 'denied';
+
+// A saved explanation the admin can pick instead of typing one
+export interface CannedResponse {
+  id: string;
+  status: DecisionStatus;
+  title: string;
+  message: string;
+  createdAt: string;
+}
+
+export interface CannedResponseInput {
+  status: DecisionStatus;
+  title: string;
+  message: string;
+}
+
+// Booking changes the customer is told about
+export type NotificationEvent = 'created' | 'approved' | 'denied' | 'cancelled' | 'rescheduled' | 'waitlist_offer';
+
+// "failed" once every attempt has been used up
+export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface DeliveryAttempt {
+  at: string;
+  // Missing when the attempt succeeded
+  error?: string;
+}
+
+export interface NotificationAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+// A notification for one channel, kept in the outbox with its delivery record
+export interface OutboxMessage {
+  id: string;
+  event: NotificationEvent;
+  // Missing for waitlist offers, which are about a waitlist entry instead
+  bookingId?: string;
+  waitlistEntryId?: string;
+  channel: string;
+  to: string;
+  subject: string;
+  text: string;
+  // Such as the booking's calendar invite
+  attachments?: NotificationAttachment[];
+  status: DeliveryStatus;
+  attempts: DeliveryAttempt[];
+  // When the next attempt is due; null once sent or failed
+  nextAttemptAt: string | null;
+  createdAt: string;
+  sentAt?: string;
+}
+
+// Subject and body for one event's notifications. Text between {{ and }}
+// is replaced with the booking's details; see NOTIFICATION_TEMPLATE_VARIABLES.
+export interface NotificationTemplate {
+  id: string;
+  event: NotificationEvent;
+  // Only used for this channel; null for the event's default, which every
+  // other channel uses and which can't be deleted
+  channel: string | null;
+  subject: string;
+  body: string;
+  updatedAt: string;
+}
+
+export interface NotificationTemplateInput {
+  event: NotificationEvent;
+  channel: string | null;
+  subject: string;
+  body: string;
+}
+
+export type CalendarMethod = 'REQUEST' | 'CANCEL';
+
+// An iCalendar (.ics) file for a booking
+export interface CalendarInvite extends NotificationAttachment {
+  method: CalendarMethod;
+}
+
+export interface RescheduleBookingInput {
+  slotId: string;
+  // Move to this provider instead of keeping the current one
+  providerId?: string;
+}
+
+// What the customer's management page shows
+export interface ManagedBooking {
+  booking: Booking;
+  // Until when the customer can cancel or reschedule; null when the booking
+  // can no longer be changed at all (already cancelled, denied or started)
+  cancellableUntil: string | null;
+}
+
+// A short-lived reservation of one provider's time (or one seat of their
+// group session) at a slot, placed while the customer fills in the booking
+// form. Expired holds are ignored.
+export interface SlotHold {
+  id: string;
+  slotId: string;
+  providerId: string;
+  // Holds for a group type take one seat of its session, leaving the rest
+  // to other customers booking the same type
+  appointmentTypeId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface SlotHoldInput {
+  slotId: string;
+  // Defaults to the first appointment type
+  appointmentTypeId?: string;
+  // Omit to hold the slot with any available provider
+  providerId?: string;
+}
+
+// "waiting" until a matching time frees up; "offered" while the customer's
+// claim link is open; "claimed" once they booked through it; "expired" when
+// an offer ran out unclaimed; "removed" when an admin took them off the list
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired' | 'removed';
+
+// A customer waiting for a taken slot, or for any slot on a day. Entries are
+// offered freed time in the order they joined.
+export interface WaitlistEntry {
+  id: string;
+  // Business-local date waited for
+  date: string;
+  // The slot waited for; null means any slot on `date`
+  slotId: string | null;
+  appointmentTypeId: string;
+  // Copied from the type when joining, like Booking.appointmentTypeName
+  appointmentTypeName: string;
+  // Null means any provider
+  providerId: string | null;
+  name: string;
+  email: string;
+  reason: string;
+  status: WaitlistStatus;
+  // Secret for the customer's waitlist link, like Booking.manageToken
+  claimToken: string;
+  // The time currently (or last) offered
+  offer?: WaitlistOffer;
+  // Booking made by claiming the offer
+  bookingId?: string;
+  createdAt: string;
+}
+
+// Freed time reserved for a waitlisted customer until `expiresAt`. It keeps
+// the provider's time (or a session seat) like a slot hold does.
+export interface WaitlistOffer {
+  slotId: string;
+  // Business-local start time, plus the absolute instants of the time offered
+  time: string;
+  startsAt: string;
+  endsAt: string;
+  providerId: string;
+  providerName: string;
+  offeredAt: string;
+  expiresAt: string;
+}
+
+export interface JoinWaitlistInput {
+  // The taken slot to wait for; omit and give `date` to wait for any slot
+  // on that day
+  slotId?: string;
+  date?: string;
+  // Defaults to the first appointment type
+  appointmentTypeId?: string;
+  // Omit to accept any provider
+  providerId?: string;
+  name: string;
+  email: string;
+  reason: string;
+}
+
+// What the customer's waitlist page shows
+export interface ManagedWaitlistEntry {
+  entry: WaitlistEntry;
+  // Entries still waiting who joined earlier and compete for the same time:
+  // for the same slot, or for any time that day
+  waitingAhead: number;
+  // The booking made from the offer, once claimed
+  booking?: Booking;
+}
+
+// How an availability rule repeats after its first date
+export type RuleRecurrence =
+  // On the given weekdays (0 = Sunday), every `intervalWeeks` weeks
+  | { type: 'weekly'; weekdays: number[]; intervalWeeks: number; until?: string }
+  // Every day from the rule's date through `endDate` (open-ended if omitted)
+  | { type: 'dateRange'; endDate?: string };
+
+// Blocking rules close slots; non-blocking ("available") rules open extra
+// slots at their times, even outside business hours. When both apply to the
+// same date and time, blocking wins.
+export interface AvailabilityRule {
+  id: string;
+  // Business-local date of the first occurrence (YYYY-MM-DD)
+  date: string;
+  timeSlots: string[];
+  isBlocked: boolean;
+  reason?: string;
+  // Omitted for one-off rules that only apply on `date`
+  recurrence?: RuleRecurrence;
+  // Occurrence dates the rule is skipped on
+  exceptions?: string[];
+  // Limits the rule to one provider's calendar; omitted rules apply to all
+  providerId?: string;
+  // "Available" rules only: seats per session at these times, overriding
+  // the appointment type's capacity
+  capacity?: number;
+  createdAt: string;
+}
+
+// Opening hours within a day, as "HH:MM" in business-local time
+export interface TimeInterval {
+  start: string;
+  end: string;
+}
+
+export interface ScheduleConfig {
+  // IANA timezone the business operates in, e.g. "Europe/Berlin". Opening
+  // hours, slot dates and availability rules are all in this zone.
+  timeZone: string;
+  // Opening intervals per weekday, indexed like Date.getDay() (0 = Sunday).
+  // An empty list means closed; several intervals allow breaks (e.g. lunch).
+  weeklyHours: TimeInterval[][];
+  slotLengthMinutes: number;
+  // How many days ahead, starting today, slots are offered
+  bookingHorizonDays: number;
+  // How long before its start a slot stops being bookable, e.g. 240 for 4 hours
+  minimumNoticeMinutes: number;
+  // How long before the start customers can no longer cancel, e.g. 1440 for
+  // 24 hours
+  cancellationCutoffMinutes: number;
+  // Most appointments per business-local day and Monday-Sunday week, overall
+  // and for each provider; null means no limit
+  dailyBookingCap: number | null;
+  weeklyBookingCap: number | null;
+  providerDailyBookingCap: number | null;
+  providerWeeklyBookingCap: number | null;
+  assignmentStrategy: AssignmentStrategy;
+  // Default padding around every booking; appointment types can override it
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+}
+
+// API Response interfaces for better error handling
+export interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: {
+    code: number;
+    message: string;
+    details?: string;
+  };
+}
+
+export interface CreateBookingInput {
+  slotId: string;
+  // Defaults to the first appointment type
+  appointmentTypeId?: string;
+  // Omit to book with any available provider
+  providerId?: string;
+  // The customer's own hold on the slot, which is released by the booking
+  holdId?: string;
+  name: string;
+  email: string;
+  reason: string;
+}
+
+export interface SetAvailabilityInput {
+  date: string;
+  timeSlots: string[];
+  isBlocked: boolean;
+  reason?: string;
+  recurrence?: RuleRecurrence;
+  providerId?: string;
+  capacity?: number;
+  // What to do when the rule overlaps existing rules (same date and time):
+  // "reject" (default) fails with 409, "merge" folds the new times into
+  // rules with the same action and schedule and keeps the rest alongside,
+  // "replace" deletes the overlapping rules
+  onConflict?: RuleConflictResolution;
+}
+
+export type RuleConflictResolution = 'reject' | 'merge' | 'replace';
+
+export interface SlotQuery {
+  // Only mark slots available where a booking of this type fits
+  appointmentTypeId?: string;
+  // Only consider this provider's calendar instead of any provider's
+  providerId?: string;
+  // The caller's own hold, whose slot is still shown as free to them
+  holdId?: string;
+}
+
+// Every endpoint the front end talks to. Implemented in-process by
+// LocalAppointmentService and over the network by HttpAppointmentService.
+export interface AppointmentApi {
+  // GET /slots
+  getAvailableSlots(query?: SlotQuery): Promise<ApiResponse<TimeSlot[]>>;
+  // POST /bookings
+  createBooking(data: CreateBookingInput): Promise<ApiResponse<Booking>>;
+  // POST /slot-holds
+  holdSlot(data: SlotHoldInput): Promise<ApiResponse<SlotHold>>;
+  // DELETE /slot-holds/:id
+  releaseSlotHold(holdId: string): Promise<ApiResponse<void>>;
+  // GET /bookings/:id/manage?token=
+  getManagedBooking(bookingId: string, token: string): Promise<ApiResponse<ManagedBooking>>;
+  // GET /bookings/:id/invite?token=
+  getCalendarInvite(bookingId: string, token: string): Promise<ApiResponse<CalendarInvite>>;
+  // POST /bookings/:id/cancel
+  cancelBooking(bookingId: string, token: string): Promise<ApiResponse<Booking>>;
+  // POST /bookings/:id/reschedule
+  rescheduleBooking(bookingId: string, token: string, data: RescheduleBookingInput): Promise<ApiResponse<Booking>>;
+  // PUT /bookings/:id/slot
+  updateBookingSlot(bookingId: string, data: RescheduleBookingInput): Promise<ApiResponse<Booking>>;
+  // POST /waitlist
+  joinWaitlist(data: JoinWaitlistInput): Promise<ApiResponse<WaitlistEntry>>;
+  // GET /waitlist
+  getWaitlist(): Promise<ApiResponse<WaitlistEntry[]>>;
+  // DELETE /waitlist/:id
+  removeWaitlistEntry(entryId: string): Promise<ApiResponse<WaitlistEntry>>;
+  // GET /waitlist/:id?token=
+  getWaitlistEntry(entryId: string, token: string): Promise<ApiResponse<ManagedWaitlistEntry>>;
+  // POST /waitlist/:id/claim
+  claimWaitlistOffer(entryId: string, token: string): Promise<ApiResponse<Booking>>;
+  // GET /bookings
+  getAllBookings(): Promise<ApiResponse<Booking[]>>;
+  // PATCH /bookings/:id; `reason` explains an approval or denial to the customer
+  updateBookingStatus(bookingId: string, status: BookingStatusUpdate, reason?: string): Promise<ApiResponse<Booking>>;
+  // PUT /bookings/:id/notes
+  updateBookingNotes(bookingId: string, notes: string): Promise<ApiResponse<Booking>>;
+  // GET /bookings/export.csv
+  exportBookingsCSV(): Promise<string>;
+  // POST /availability-rules
+  setAvailability(data: SetAvailabilityInput): Promise<ApiResponse<AvailabilityRule>>;
+  // POST /availability-rules/conflicts
+  findRuleConflicts(data: SetAvailabilityInput): Promise<ApiResponse<AvailabilityRule[]>>;
+  // GET /availability-rules
+  getAvailabilityRules(): Promise<ApiResponse<AvailabilityRule[]>>;
+  // DELETE /availability-rules/:id
+  deleteAvailabilityRule(ruleId: string): Promise<ApiResponse<void>>;
+  // POST /availability-rules/:id/exceptions
+  addRuleException(ruleId: string, date: string): Promise<ApiResponse<AvailabilityRule>>;
+  // DELETE /availability-rules/:id/exceptions/:date
+  removeRuleException(ruleId: string, date: string): Promise<ApiResponse<AvailabilityRule>>;
+  // GET /appointment-types
+  getAppointmentTypes(): Promise<ApiResponse<AppointmentType[]>>;
+  // POST /appointment-types
+  createAppointmentType(data: AppointmentTypeInput): Promise<ApiResponse<AppointmentType>>;
+  // PUT /appointment-types/:id
+  updateAppointmentType(typeId: string, data: AppointmentTypeInput): Promise<ApiResponse<AppointmentType>>;
+  // DELETE /appointment-types/:id
+  deleteAppointmentType(typeId: string): Promise<ApiResponse<void>>;
+  // GET /providers
+  getProviders(): Promise<ApiResponse<Provider[]>>;
+  // POST /providers
+  createProvider(data: ProviderInput): Promise<ApiResponse<Provider>>;
+  // PUT /providers/:id
+  updateProvider(providerId: string, data: ProviderInput): Promise<ApiResponse<Provider>>;
+  // DELETE /providers/:id
+  deleteProvider(providerId: string): Promise<ApiResponse<void>>;
+  // GET /canned-responses
+  getCannedResponses(): Promise<ApiResponse<CannedResponse[]>>;
+  // POST /canned-responses
+  createCannedResponse(data: CannedResponseInput): Promise<ApiResponse<CannedResponse>>;
+  // PUT /canned-responses/:id
+  updateCannedResponse(responseId: string, data: CannedResponseInput): Promise<ApiResponse<CannedResponse>>;
+  // DELETE /canned-responses/:id
+  deleteCannedResponse(responseId: string): Promise<ApiResponse<void>>;
+  // GET /notifications
+  getNotifications(): Promise<ApiResponse<OutboxMessage[]>>;
+  // POST /notifications/:id/retry
+  retryNotification(messageId: string): Promise<ApiResponse<OutboxMessage>>;
+  // GET /notification-channels
+  getNotificationChannels(): Promise<ApiResponse<string[]>>;
+  // GET /notification-templates
+  getNotificationTemplates(): Promise<ApiResponse<NotificationTemplate[]>>;
+  // POST /notification-templates
+  createNotificationTemplate(data: NotificationTemplateInput): Promise<ApiResponse<NotificationTemplate>>;
+  // PUT /notification-templates/:id
+  updateNotificationTemplate(templateId: string, data: NotificationTemplateInput): Promise<ApiResponse<NotificationTemplate>>;
+  // DELETE /notification-templates/:id
+  deleteNotificationTemplate(templateId: string): Promise<ApiResponse<void>>;
+  // GET /schedule-config
+  getScheduleConfig(): Promise<ApiResponse<ScheduleConfig>>;
+  // PUT /schedule-config
+  updateScheduleConfig(config: ScheduleConfig): Promise<ApiResponse<ScheduleConfig>>;
+}
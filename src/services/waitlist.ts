@@ -0,0 +1,17 @@
+// Waitlist helpers shared by the service and the pages.
+import { SlotUnavailableReason, WaitlistEntry } from './types';
+
+// Slots taken by other customers, which a cancellation or denial can free.
+// Past, closed and capped slots aren't worth waiting for.
+export const WAITLIST_REASONS: SlotUnavailableReason[] = ['booked', 'full', 'held', 'buffer'];
+
+export const canWaitlistSlot = (reason?: SlotUnavailableReason): boolean =>
+  reason !== undefined && WAITLIST_REASONS.includes(reason);
+
+// Entries still in line for freed time
+export const isOpenWaitlistEntry = (entry: WaitlistEntry): boolean =>
+  entry.status === 'waiting' || entry.status === 'offered';
+
+// Page where the customer can follow their place and claim an offer
+export const getWaitlistPath = (entry: Pick<WaitlistEntry, 'id' | 'claimToken'>): string =>
+  `/waitlist/${encodeURIComponent(entry.id)}?token=${encodeURIComponent(entry.claimToken)}`;
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_APPOINTMENT_API?: 'local' | 'http';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_STORAGE?: 'memory' | 'localStorage' | 'indexeddb';
+  readonly VITE_NOTIFY_WEBHOOK_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}